@@ -10,22 +10,20 @@ const server = new EtsyMCPServer(oauthServer);
 
 // Handle errors using the logger
 process.on('uncaughtException', (error) => {
-  // Log to both the app logger and stderr for MCP client visibility
+  // Errors also reach stderr, so MCP clients show them
   logger.error('Uncaught Exception:', error);
-  console.error('MCP Server Uncaught Exception:', error); // Detailed to stderr
   process.exit(1);
 });
 
 process.on('unhandledRejection', (reason) => {
   const error = reason instanceof Error ? reason : new Error(String(reason));
-  // Log to both the app logger and stderr for MCP client visibility
+  // Errors also reach stderr, so MCP clients show them
   logger.error('Unhandled Rejection:', error);
-  console.error('MCP Server Unhandled Rejection:', error); // Detailed to stderr
   process.exit(1);
 });
 
-process.on('SIGINT', async () => {
-  logger.log('Received SIGINT. Shutting down gracefully...');
+async function shutdown(signal: string) {
+  logger.info(`Received ${signal}. Shutting down gracefully...`);
   try {
     await server.stop();
     process.exit(0);
@@ -33,7 +31,10 @@ process.on('SIGINT', async () => {
     logger.error('Error during graceful shutdown:', error);
     process.exit(1);
   }
-});
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 // Start server
 server.start().catch(error => {
@@ -0,0 +1,17 @@
+import { getTokenEncryptionSecret, migratePlaintextTokens } from "./services/tokenStorage.js";
+
+// Encrypts an existing plaintext tokens.json. Usage: npm run migrate-tokens [-- --force]
+// Needs ETSY_MCP_TOKEN_PASSPHRASE or ETSY_MCP_TOKEN_KEY_FILE, the same secret the server will run with.
+const secret = getTokenEncryptionSecret();
+if (!secret) {
+  console.error('Set ETSY_MCP_TOKEN_PASSPHRASE or ETSY_MCP_TOKEN_KEY_FILE before migrating tokens.');
+  process.exit(1);
+}
+
+try {
+  const result = migratePlaintextTokens(secret, { overwrite: process.argv.includes('--force') });
+  console.log(`Encrypted ${result.profiles} profile(s) from ${result.from} into ${result.to} and removed the plaintext file.`);
+} catch (error) {
+  console.error(`Token migration failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog, listingRestoreFields, snapshotEndpointFor, undoKindOf } from '../auditLog.js';
+
+describe('AuditLog', () => {
+    let dir: string;
+    let log: AuditLog;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-audit-'));
+        log = new AuditLog(path.join(dir, 'audit.jsonl'));
+    });
+
+    afterEach(() => {
+        delete process.env.ETSY_MCP_AUDIT_LOG_MAX_SIZE_MB;
+        delete process.env.ETSY_MCP_AUDIT_LOG_MAX_FILES;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should append entries and list them newest first', () => {
+        const first = log.record({
+            tool: 'update_listing',
+            profile: 'default',
+            method: 'PATCH',
+            endpoint: '/application/shops/1/listings/5',
+            payload: { title: 'New' },
+            priorState: { listing_id: 5, title: 'Old' },
+            response: { listing_id: 5, title: 'New' }
+        });
+        const second = log.record({
+            tool: 'create_listing',
+            profile: 'default',
+            method: 'POST',
+            endpoint: '/application/shops/1/listings',
+            payload: { title: 'Mug' },
+            error: new Error('Bad request')
+        });
+
+        expect(first).toMatchObject({ shop_id: 1, listing_id: 5, status: 'succeeded', response_ids: { listing_id: 5 } });
+        expect(second).toMatchObject({ shop_id: 1, status: 'failed', error: 'Bad request' });
+        expect(second.listing_id).toBeUndefined();
+
+        expect(fs.readFileSync(log.filePath, 'utf8').trim().split('\n')).toHaveLength(2);
+        expect(log.list().map(entry => entry.id)).toEqual([second.id, first.id]);
+        expect(log.list({ listingId: 5 }).map(entry => entry.id)).toEqual([first.id]);
+        expect(log.list({ tool: 'create_listing', limit: 1 }).map(entry => entry.id)).toEqual([second.id]);
+        expect(log.find(first.id)?.prior_state).toEqual({ listing_id: 5, title: 'Old' });
+    });
+
+    it('should skip malformed lines', () => {
+        const entry = log.record({ profile: 'default', method: 'DELETE', endpoint: '/application/listings/5', payload: null });
+        fs.appendFileSync(log.filePath, 'not json\n');
+        expect(log.list()).toEqual([entry]);
+    });
+
+    it('should read entries longer than one read chunk, including multi-byte characters', () => {
+        const description = 'Glasur in Blau – ✓ '.repeat(8000);
+        const large = log.record({ profile: 'default', method: 'PATCH', endpoint: '/application/shops/1/listings/5', payload: { description } });
+        const small = log.record({ profile: 'default', method: 'PATCH', endpoint: '/application/shops/1/listings/6', payload: { title: 'Mug' } });
+
+        expect(log.list().map(entry => entry.id)).toEqual([small.id, large.id]);
+        expect(log.find(large.id)?.payload).toEqual({ description });
+    });
+
+    it('should rotate the file when it grows too large and keep the newest rotated files', () => {
+        // About 400 bytes, so every entry after the first starts a new file
+        process.env.ETSY_MCP_AUDIT_LOG_MAX_SIZE_MB = String(400 / (1024 * 1024));
+        process.env.ETSY_MCP_AUDIT_LOG_MAX_FILES = '2';
+        jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+        const entries = [1, 2, 3, 4, 5].map(listingId => {
+            // Rotated files are named by time
+            jest.advanceTimersByTime(1000);
+            return log.record({ profile: 'default', method: 'PATCH', endpoint: `/application/shops/1/listings/${listingId}`, payload: { title: 'x'.repeat(150) } });
+        });
+        jest.useRealTimers();
+
+        expect(fs.readdirSync(dir)).toHaveLength(3);
+        expect(log.list().map(entry => entry.listing_id)).toEqual([5, 4, 3]);
+        expect(log.list({ limit: 1 }).map(entry => entry.id)).toEqual([entries[4].id]);
+        expect(log.find(entries[2].id)?.listing_id).toBe(3);
+        expect(log.find(entries[0].id)).toBeUndefined();
+    });
+
+    it('should know which requests can be snapshotted and undone', () => {
+        expect(snapshotEndpointFor('PATCH', '/application/shops/1/listings/5')).toBe('/application/listings/5');
+        expect(snapshotEndpointFor('DELETE', '/application/listings/5')).toBe('/application/listings/5');
+        expect(snapshotEndpointFor('PUT', '/application/listings/5/inventory')).toBe('/application/listings/5/inventory');
+        expect(snapshotEndpointFor('POST', '/application/shops/1/listings')).toBeNull();
+
+        const entry = log.record({ profile: 'default', method: 'PUT', endpoint: '/application/listings/5/inventory', payload: {} });
+        expect(undoKindOf(entry)).toBe('inventory');
+        expect(undoKindOf({ ...entry, method: 'PATCH', endpoint: '/application/shops/1/listings/5' })).toBe('listing');
+        expect(undoKindOf({ ...entry, method: 'DELETE', endpoint: '/application/listings/5' })).toBeNull();
+    });
+
+    it('should restore only the fields the update changed', () => {
+        const entry = log.record({
+            profile: 'default',
+            method: 'PATCH',
+            endpoint: '/application/shops/1/listings/5',
+            payload: { title: 'New', tags: ['mug'], shipping_profile_id: 7 },
+            priorState: { listing_id: 5, title: 'Old', tags: [], description: 'Unchanged' }
+        });
+        expect(listingRestoreFields(entry)).toEqual({
+            fields: { title: 'Old', tags: [] },
+            unrestorable: ['shipping_profile_id']
+        });
+    });
+
+    it('should not restore values updateListing does not accept', () => {
+        const publish = log.record({
+            tool: 'publish_listing',
+            profile: 'default',
+            method: 'PATCH',
+            endpoint: '/application/shops/1/listings/5',
+            payload: { state: 'active' },
+            priorState: { listing_id: 5, state: 'draft' }
+        });
+        const deactivate = { ...publish, payload: { state: 'inactive' }, prior_state: { listing_id: 5, state: 'active' } };
+        const money = { ...publish, payload: { price: 12 }, prior_state: { listing_id: 5, price: { amount: 1000, divisor: 100, currency_code: 'USD' } } };
+
+        expect(listingRestoreFields(publish)).toEqual({ fields: {}, unrestorable: ['state'] });
+        expect(listingRestoreFields(deactivate)).toEqual({ fields: { state: 'active' }, unrestorable: [] });
+        expect(listingRestoreFields(money)).toEqual({ fields: {}, unrestorable: ['price'] });
+    });
+});
@@ -0,0 +1,44 @@
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+    it('should keep the input order and never exceed the limit', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await sleep(ms);
+            inFlight--;
+            return `${index}:${ms}`;
+        });
+
+        expect(maxInFlight).toBe(2);
+        expect(results).toEqual(['0:30', '1:10', '2:20', '3:5', '4:15'].map(value => ({ status: 'fulfilled', value })));
+    });
+
+    it('should report failures per item without stopping the others', async () => {
+        const error = new Error('boom');
+        const results = await mapWithConcurrency([1, 2, 3], 3, async item => {
+            if (item === 2) {
+                throw error;
+            }
+            return item * 10;
+        });
+
+        expect(results).toEqual([
+            { status: 'fulfilled', value: 10 },
+            { status: 'rejected', reason: error },
+            { status: 'fulfilled', value: 30 }
+        ]);
+    });
+
+    it('should handle empty input and limits below one', async () => {
+        expect(await mapWithConcurrency([], 4, async item => item)).toEqual([]);
+        expect(await mapWithConcurrency(['a', 'b'], 0, async item => item.toUpperCase())).toEqual([
+            { status: 'fulfilled', value: 'A' },
+            { status: 'fulfilled', value: 'B' }
+        ]);
+    });
+});
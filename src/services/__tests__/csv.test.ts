@@ -0,0 +1,27 @@
+import { toCsv } from '../../utils/csv.js';
+
+describe('toCsv', () => {
+    it('should quote cells with commas, quotes and line breaks', () => {
+        expect(toCsv([
+            { title: 'Mug, large', note: 'She said "hi"', lines: 'a\nb', plain: 'ok' },
+            { title: 'Cup', note: 'carriage\rreturn', lines: '', plain: 5 }
+        ])).toBe(
+            'title,note,lines,plain\r\n' +
+            '"Mug, large","She said ""hi""","a\nb",ok\r\n' +
+            'Cup,"carriage\rreturn",,5\r\n'
+        );
+    });
+
+    it('should follow the given columns and write objects as JSON', () => {
+        expect(toCsv([{ id: 1, tags: ['a', 'b'], meta: { x: 1 }, extra: 'ignored' }, { id: 2, tags: null }], ['id', 'tags', 'meta'])).toBe(
+            'id,tags,meta\r\n' +
+            '1,"[""a"",""b""]","{""x"":1}"\r\n' +
+            '2,,\r\n'
+        );
+    });
+
+    it('should collect the header from all rows when no columns are given', () => {
+        expect(toCsv([{ a: 1 }, { b: 2 }])).toBe('a,b\r\n1,\r\n,2\r\n');
+        expect(toCsv([], ['a', 'b'])).toBe('a,b\r\n');
+    });
+});
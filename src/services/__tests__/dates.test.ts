@@ -0,0 +1,24 @@
+import { fromEpochSeconds, toEndEpochSeconds, toEpochSeconds } from '../../utils/dates.js';
+
+describe('Date helpers', () => {
+    it('should convert ISO 8601 dates to epoch seconds', () => {
+        expect(toEpochSeconds('2024-01-31')).toBe(1706659200);
+        expect(toEpochSeconds('2024-01-31T12:00:00Z')).toBe(1706702400);
+        expect(toEpochSeconds('2024-01-31T12:00:00.999Z')).toBe(1706702400);
+        expect(() => toEpochSeconds('last tuesday')).toThrow('Invalid date');
+    });
+
+    it('should treat a date-only upper bound as the end of that day', () => {
+        expect(toEndEpochSeconds('2024-01-31')).toBe(1706745599);
+        expect(toEndEpochSeconds(' 2024-01-31 ')).toBe(1706745599);
+        expect(toEndEpochSeconds('2024-01-31T12:00:00Z')).toBe(1706702400);
+        expect(() => toEndEpochSeconds('2024-13-45')).toThrow('Invalid date');
+    });
+
+    it('should convert epoch seconds back to ISO strings', () => {
+        expect(fromEpochSeconds(1706702400)).toBe('2024-01-31T12:00:00.000Z');
+        expect(fromEpochSeconds(0)).toBe('1970-01-01T00:00:00.000Z');
+        expect(fromEpochSeconds(undefined)).toBeUndefined();
+        expect(fromEpochSeconds(null)).toBeUndefined();
+    });
+});
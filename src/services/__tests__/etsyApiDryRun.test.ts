@@ -0,0 +1,86 @@
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlannedRequest, runWithContext } from '../requestContext.js';
+
+describe('EtsyApiClient dry runs', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let etsyApi: typeof import('../etsyApi.js')['etsyApi'];
+    let sent: string[];
+    let storageDir: string;
+
+    beforeAll(async () => {
+        // The client reads its credentials when the module is loaded
+        process.env.ETSY_API_KEY = process.env.ETSY_API_KEY || 'test-key';
+        process.env.ETSY_CLIENT_SECRET = process.env.ETSY_CLIENT_SECRET || 'test-secret';
+        // Mutations sent outside dry runs are audited next to the tokens
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-dry-run-'));
+        process.env.ETSY_MCP_TOKEN_PATH = storageDir;
+        ({ etsyApi } = await import('../etsyApi.js'));
+    });
+
+    beforeEach(() => {
+        sent = [];
+        axios.defaults.adapter = async config => {
+            sent.push(`${config.method?.toUpperCase()} ${config.url}`);
+            return { status: 200, statusText: 'OK', headers: {}, config, data: { listing_id: 5, title: 'Mug', state: 'draft' } };
+        };
+        etsyApi.getResponseCache().clear();
+    });
+
+    afterAll(() => {
+        axios.defaults.adapter = originalAdapter;
+        fs.rmSync(storageDir, { recursive: true, force: true });
+        delete process.env.ETSY_MCP_TOKEN_PATH;
+    });
+
+    it('should record mutating requests instead of sending them', async () => {
+        const requests: PlannedRequest[] = [];
+        const payload = { title: 'Mug', tags: ['mug'] };
+
+        await runWithContext({ dryRun: { requests } }, async () => {
+            await etsyApi.updateListing('1', '5', payload, 'token');
+            await etsyApi.deleteListing('5', 'token');
+        });
+        payload.tags.push('changed later');
+
+        expect(sent).toEqual([]);
+        expect(requests).toEqual([
+            { method: 'PATCH', endpoint: '/application/shops/1/listings/5', payload: { title: 'Mug', tags: ['mug'] } },
+            { method: 'DELETE', endpoint: '/application/listings/5', payload: null }
+        ]);
+    });
+
+    it('should still send reads during a dry run', async () => {
+        const requests: PlannedRequest[] = [];
+        const listing = await runWithContext({ dryRun: { requests } }, () => etsyApi.getListing('5', 'token'));
+
+        expect(listing.title).toBe('Mug');
+        expect(sent).toEqual(['GET https://api.etsy.com/v3/application/listings/5']);
+        expect(requests).toEqual([]);
+        expect(fs.existsSync(path.join(storageDir, 'audit.jsonl'))).toBe(false);
+    });
+
+    it('should send mutating requests outside dry runs', async () => {
+        await runWithContext({ correlationId: 'abc123', tool: 'update_listing' }, () => etsyApi.updateListing('1', '5', { title: 'Mug' }, 'token'));
+        // The listing is fetched first so the audit entry can hold its prior state
+        expect(sent).toEqual([
+            'GET https://api.etsy.com/v3/application/listings/5',
+            'PATCH https://api.etsy.com/v3/application/shops/1/listings/5'
+        ]);
+
+        const { auditLog } = await import('../auditLog.js');
+        const [entry] = auditLog.list();
+        expect(entry).toMatchObject({
+            correlation_id: 'abc123',
+            tool: 'update_listing',
+            shop_id: 1,
+            listing_id: 5,
+            method: 'PATCH',
+            payload: { title: 'Mug' },
+            status: 'succeeded',
+            prior_state: { listing_id: 5, title: 'Mug', state: 'draft' }
+        });
+    });
+});
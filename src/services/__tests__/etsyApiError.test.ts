@@ -0,0 +1,64 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+    EtsyApiError,
+    EtsyAuthExpiredError,
+    EtsyInsufficientScopeError,
+    EtsyNotFoundError,
+    EtsyRateLimitedError,
+    EtsyValidationError,
+    createEtsyApiError
+} from '../etsyApiError.js';
+
+function axiosError(status: number | undefined, data: any = {}, headers: Record<string, string> = {}): AxiosError {
+    const error = new AxiosError('Request failed', status ? 'ERR_BAD_RESPONSE' : 'ECONNRESET');
+    if (status) {
+        error.response = { status, data, headers, statusText: '', config: { headers: new AxiosHeaders() } };
+    }
+    return error;
+}
+
+describe('createEtsyApiError', () => {
+    it.each([
+        [401, EtsyAuthExpiredError, 'run the authenticate tool'],
+        [404, EtsyNotFoundError, 'Check the ID'],
+        [400, EtsyValidationError, 'Fix the fields'],
+        [429, EtsyRateLimitedError, 'rate limit']
+    ])('should map status %s to %p', (status, ErrorClass, hint) => {
+        const error = createEtsyApiError(axiosError(status, { error: 'nope' }), 'GET', '/application/listings/1');
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(EtsyApiError);
+        expect(error.status).toBe(status);
+        expect(error.endpoint).toBe('/application/listings/1');
+        expect(error.etsyError).toBe('nope');
+        expect(error.remediation?.toLowerCase()).toContain(hint.toLowerCase());
+    });
+
+    it('should name the missing scope on 403', () => {
+        const error = createEtsyApiError(axiosError(403, { error: 'Missing required scope: listings_d' }), 'DELETE', '/application/listings/1');
+
+        expect(error).toBeInstanceOf(EtsyInsufficientScopeError);
+        expect((error as EtsyInsufficientScopeError).missingScope).toBe('listings_d');
+        expect(error.remediation).toContain('Missing scope listings_d');
+    });
+
+    it('should treat a revoked refresh token as expired authentication', () => {
+        const error = createEtsyApiError(axiosError(400, { error: 'invalid_grant', error_description: 'refresh token expired' }), 'POST', '/public/oauth/token');
+
+        expect(error).toBeInstanceOf(EtsyAuthExpiredError);
+        expect(error.etsyError).toBe('invalid_grant');
+    });
+
+    it('should mark server and network errors as retryable', () => {
+        expect(createEtsyApiError(axiosError(503), 'GET', '/x').retryable).toBe(true);
+        expect(createEtsyApiError(axiosError(undefined), 'GET', '/x').retryable).toBe(true);
+        expect(createEtsyApiError(axiosError(400), 'GET', '/x').retryable).toBe(false);
+    });
+
+    it('should carry Retry-After on rate limit errors', () => {
+        const error = createEtsyApiError(axiosError(429, {}, { 'retry-after': '2' }), 'GET', '/x') as EtsyRateLimitedError;
+
+        expect(error.retryAfterMs).toBe(2000);
+        expect(error.toJSON()).toEqual(expect.objectContaining({ type: 'EtsyRateLimitedError', status: 429, retryable: true }));
+    });
+});
@@ -0,0 +1,76 @@
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('EtsyApiClient pagination', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let etsyApi: typeof import('../etsyApi.js')['etsyApi'];
+    let urls: string[];
+    let storageDir: string;
+
+    beforeAll(async () => {
+        // The client reads its credentials when the module is loaded
+        process.env.ETSY_API_KEY = process.env.ETSY_API_KEY || 'test-key';
+        process.env.ETSY_CLIENT_SECRET = process.env.ETSY_CLIENT_SECRET || 'test-secret';
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-pagination-'));
+        process.env.ETSY_MCP_TOKEN_PATH = storageDir;
+        ({ etsyApi } = await import('../etsyApi.js'));
+    });
+
+    // Serves `total` reviews, honouring the limit and offset of each request
+    function serveReviews(total: number) {
+        axios.defaults.adapter = async config => {
+            urls.push(config.url!);
+            const query = new URL(config.url!).searchParams;
+            const offset = Number(query.get('offset'));
+            const limit = Number(query.get('limit'));
+            const results = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => ({ rating: 5, review: `#${offset + i}` }));
+            return { status: 200, statusText: 'OK', headers: {}, config, data: { count: total, results } };
+        };
+    }
+
+    beforeEach(() => {
+        urls = [];
+        etsyApi.getResponseCache().clear();
+    });
+
+    afterAll(() => {
+        axios.defaults.adapter = originalAdapter;
+        fs.rmSync(storageDir, { recursive: true, force: true });
+        delete process.env.ETSY_MCP_TOKEN_PATH;
+    });
+
+    it('should follow limit/offset pages until all results are collected', async () => {
+        serveReviews(250);
+        const page = await etsyApi.getShopReviews('1', { min_created: 100 }, 'token');
+
+        expect(page.count).toBe(250);
+        expect(page.results).toHaveLength(250);
+        expect(page.results[249].review).toBe('#249');
+        expect(urls).toEqual([
+            'https://api.etsy.com/v3/application/shops/1/reviews?min_created=100&limit=100&offset=0',
+            'https://api.etsy.com/v3/application/shops/1/reviews?min_created=100&limit=100&offset=100',
+            'https://api.etsy.com/v3/application/shops/1/reviews?min_created=100&limit=100&offset=200'
+        ]);
+    });
+
+    it('should stop at maxResults and leave out undefined parameters', async () => {
+        serveReviews(250);
+        const page = await etsyApi.getShopReviews('1', { min_created: undefined, max_created: 200 }, 'token', 120);
+
+        expect(page.results).toHaveLength(120);
+        expect(urls).toEqual([
+            'https://api.etsy.com/v3/application/shops/1/reviews?max_created=200&limit=100&offset=0',
+            'https://api.etsy.com/v3/application/shops/1/reviews?max_created=200&limit=20&offset=100'
+        ]);
+    });
+
+    it('should stop when a page comes back short', async () => {
+        serveReviews(0);
+        const page = await etsyApi.getShopReviews('1', {}, 'token');
+
+        expect(page).toEqual({ count: 0, results: [] });
+        expect(urls).toHaveLength(1);
+    });
+});
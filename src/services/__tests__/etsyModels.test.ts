@@ -0,0 +1,73 @@
+import {
+    ledgerEntrySchema, listingInventorySchema, listingSchema, paginatedSchema, receiptSchema, sellerTaxonomyNodeSchema, shopSchema
+} from '../etsyModels.js';
+import { EtsyApiError, EtsySchemaDriftError } from '../etsyApiError.js';
+
+describe('etsyModels', () => {
+    it('should keep fields that are not declared in the model', () => {
+        const shop = shopSchema.parse({ shop_id: 1, shop_name: 'Shop', user_id: 2, announcement: 'Hello' });
+
+        expect(shop.shop_id).toBe(1);
+        expect(shop['announcement']).toBe('Hello');
+    });
+
+    it('should accept nulls for optional fields', () => {
+        const listing = listingSchema.parse({ listing_id: 1, title: 'Mug', state: 'active', description: null, price: null });
+
+        expect(listing.description).toBeNull();
+    });
+
+    it('should validate nested money and transactions', () => {
+        const result = receiptSchema.safeParse({
+            receipt_id: 5,
+            grandtotal: { amount: '1000', divisor: 100, currency_code: 'USD' },
+            transactions: [{ transaction_id: 1 }]
+        });
+
+        expect(result.success).toBe(false);
+        const paths = result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+        expect(paths).toEqual(expect.arrayContaining(['grandtotal.amount', 'transactions.0.quantity']));
+    });
+
+    it('should validate every item of a paginated result', () => {
+        const schema = paginatedSchema(listingSchema);
+
+        expect(schema.safeParse({ count: 1, results: [{ listing_id: 1, title: 'Mug', state: 'active' }] }).success).toBe(true);
+        expect(schema.safeParse({ count: 1, results: [{ listing_id: '1', title: 'Mug', state: 'active' }] }).success).toBe(false);
+    });
+
+    it('should reject ledger entries whose amount or currency changed shape', () => {
+        const entry = { entry_id: 1, amount: 1250, currency: 'USD', balance: 5000, created_timestamp: 1700000000 };
+
+        expect(ledgerEntrySchema.safeParse(entry).success).toBe(true);
+        expect(ledgerEntrySchema.safeParse({ ...entry, amount: { amount: 1250, divisor: 100, currency_code: 'USD' } }).success).toBe(false);
+        expect(ledgerEntrySchema.safeParse({ ...entry, currency: undefined }).success).toBe(false);
+    });
+
+    it('should validate inventory offerings and nested taxonomy nodes', () => {
+        const inventory = {
+            products: [{ sku: 'A', property_values: [], offerings: [{ price: 12.5, quantity: 1, is_enabled: true }] }],
+            price_on_property: [], quantity_on_property: [], sku_on_property: []
+        };
+        const node = { id: 1, level: 0, name: 'Home', children: [{ id: 2, level: 1, name: 'Mugs', children: [{ id: 3, level: 2, name: 'Cups' }] }] };
+
+        expect(listingInventorySchema.safeParse(inventory).success).toBe(false);
+        expect(sellerTaxonomyNodeSchema.safeParse(node).success).toBe(true);
+        expect(sellerTaxonomyNodeSchema.safeParse({ ...node, children: [{ id: '2', level: 1, name: 'Mugs' }] }).success).toBe(false);
+    });
+});
+
+describe('EtsySchemaDriftError', () => {
+    it('should list the mismatched fields', () => {
+        const error = new EtsySchemaDriftError('GET', '/application/shops/1', ['shop_id: Required', 'shop_name: Expected string, received number']);
+
+        expect(error).toBeInstanceOf(EtsyApiError);
+        expect(error.message).toContain('GET /application/shops/1');
+        expect(error.message).toContain('shop_id: Required');
+        expect(error.toJSON()).toEqual(expect.objectContaining({
+            type: 'EtsySchemaDriftError',
+            retryable: false,
+            issues: ['shop_id: Required', 'shop_name: Expected string, received number']
+        }));
+    });
+});
@@ -0,0 +1,30 @@
+import { isAffectedBy, listingResourceUri, parseResourceUri, readIdVariable, shippingProfilesResourceUri, shopResourceUri } from '../etsyResources.js';
+
+describe('etsyResources', () => {
+    it('should build and parse resource URIs', () => {
+        expect(parseResourceUri(shopResourceUri(12))).toEqual({ kind: 'shop', shopId: 12 });
+        expect(parseResourceUri(listingResourceUri(12, 345))).toEqual({ kind: 'listing', shopId: 12, listingId: 345 });
+        expect(parseResourceUri(shippingProfilesResourceUri(12))).toEqual({ kind: 'shipping-profiles', shopId: 12 });
+        expect(parseResourceUri('etsy://shops/abc')).toBeNull();
+        expect(parseResourceUri('etsy://shops/12/receipts')).toBeNull();
+    });
+
+    it('should match listing changes by listing ID in any shop', () => {
+        expect(isAffectedBy(listingResourceUri(12, 345), { listingId: 345 })).toBe(true);
+        expect(isAffectedBy(listingResourceUri(99, 345), { listingId: 345 })).toBe(true);
+        expect(isAffectedBy(listingResourceUri(12, 346), { listingId: 345 })).toBe(false);
+        expect(isAffectedBy(shopResourceUri(12), { listingId: 345 })).toBe(false);
+    });
+
+    it('should match shipping profile changes by shop', () => {
+        expect(isAffectedBy(shippingProfilesResourceUri(12), { shippingProfilesOf: 12 })).toBe(true);
+        expect(isAffectedBy(shippingProfilesResourceUri(13), { shippingProfilesOf: 12 })).toBe(false);
+        expect(isAffectedBy(shippingProfilesResourceUri(12), { listChanged: true })).toBe(false);
+    });
+
+    it('should reject non-numeric template variables', () => {
+        expect(readIdVariable({ shop_id: '12' }, 'shop_id')).toBe(12);
+        expect(readIdVariable({ shop_id: ['12'] }, 'shop_id')).toBe(12);
+        expect(() => readIdVariable({ shop_id: 'abc' }, 'shop_id')).toThrow('Invalid shop_id');
+    });
+});
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveExportPath, writeExportFile } from '../../utils/exportFiles.js';
+
+describe('Export files', () => {
+    let baseDir: string;
+
+    beforeEach(() => {
+        baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-export-'));
+        process.env.ETSY_EXPORT_DIR = path.join(baseDir, 'exports');
+    });
+
+    afterEach(() => {
+        fs.rmSync(baseDir, { recursive: true, force: true });
+        delete process.env.ETSY_EXPORT_DIR;
+    });
+
+    it('should create the export directory and write the file there', () => {
+        const filePath = writeExportFile('ledger.csv', 'a,b\r\n');
+        expect(filePath).toBe(path.join(baseDir, 'exports', 'ledger.csv'));
+        expect(fs.readFileSync(filePath, 'utf8')).toBe('a,b\r\n');
+    });
+
+    it('should keep files inside the export directory', () => {
+        expect(resolveExportPath('../../etc/passwd')).toBe(path.join(baseDir, 'exports', 'passwd'));
+    });
+
+    it('should require ETSY_EXPORT_DIR', () => {
+        delete process.env.ETSY_EXPORT_DIR;
+        expect(() => resolveExportPath('ledger.csv')).toThrow('ETSY_EXPORT_DIR');
+    });
+});
@@ -0,0 +1,30 @@
+import { fuzzyScore, tokenize } from '../../utils/fuzzy.js';
+
+describe('Fuzzy matching', () => {
+    it('should split text into lower-case tokens', () => {
+        expect(tokenize('Mugs & Cups > Coffee-Mugs')).toEqual(['mugs', 'cups', 'coffee', 'mugs']);
+        expect(tokenize('  ')).toEqual([]);
+    });
+
+    it('should rank exact, plural, prefix, substring and typo matches in that order', () => {
+        const exact = fuzzyScore('mug', 'Mug');
+        const plural = fuzzyScore('mugs', 'Mug');
+        const prefix = fuzzyScore('ceram', 'Ceramics');
+        const substring = fuzzyScore('ware', 'Glassware');
+        const typo = fuzzyScore('kandle', 'Candle');
+
+        expect([exact, plural, prefix, substring, typo]).toEqual([3, 2.75, 2, 1.5, 1]);
+    });
+
+    it('should add up the best match of every query token', () => {
+        expect(fuzzyScore('coffee mug', 'Home > Kitchen > Coffee Mugs')).toBe(5.75);
+        expect(fuzzyScore('coffee mug', 'Coffee')).toBe(3);
+    });
+
+    it('should not match short tokens loosely or empty input at all', () => {
+        expect(fuzzyScore('ar', 'Jewelry > Earrings')).toBe(0);
+        expect(fuzzyScore('cap', 'Cup')).toBe(0);
+        expect(fuzzyScore('', 'Cup')).toBe(0);
+        expect(fuzzyScore('cup', '')).toBe(0);
+    });
+});
@@ -0,0 +1,72 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { DEFAULT_HTTP_PORT, McpHttpServer, getHttpTransportOptions, getTransportMode } from '../httpTransport.js';
+
+describe('httpTransport', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    it('should default to stdio and accept http or sse', () => {
+        delete process.env.ETSY_MCP_TRANSPORT;
+        expect(getTransportMode()).toBe('stdio');
+
+        process.env.ETSY_MCP_TRANSPORT = 'HTTP';
+        expect(getTransportMode()).toBe('http');
+        process.env.ETSY_MCP_TRANSPORT = 'sse';
+        expect(getTransportMode()).toBe('http');
+
+        process.env.ETSY_MCP_TRANSPORT = 'websocket';
+        expect(() => getTransportMode()).toThrow('websocket');
+    });
+
+    it('should require a bearer token for HTTP mode', () => {
+        delete process.env.ETSY_MCP_HTTP_TOKEN;
+        expect(() => getHttpTransportOptions()).toThrow('ETSY_MCP_HTTP_TOKEN');
+
+        process.env.ETSY_MCP_HTTP_TOKEN = 'secret';
+        delete process.env.ETSY_MCP_HTTP_PORT;
+        expect(getHttpTransportOptions()).toMatchObject({ port: DEFAULT_HTTP_PORT, authToken: 'secret' });
+
+        process.env.ETSY_MCP_HTTP_PORT = '8123';
+        process.env.ETSY_MCP_HTTP_HOST = '0.0.0.0';
+        expect(getHttpTransportOptions()).toMatchObject({ host: '0.0.0.0', port: 8123 });
+    });
+
+    it('should reject requests without the bearer token and stop cleanly', async () => {
+        const port = 39000 + Math.floor(Math.random() * 1000);
+        const server = new McpHttpServer(
+            { host: '127.0.0.1', port, authToken: 'secret' },
+            () => new McpServer({ name: 'test', version: '1.0.0' })
+        );
+        await server.start();
+        try {
+            const initialize = {
+                jsonrpc: '2.0',
+                id: 1,
+                method: 'initialize',
+                params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+            };
+            const post = (token?: string) => fetch(`http://127.0.0.1:${port}/mcp`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Accept: 'application/json, text/event-stream',
+                    ...(token ? { Authorization: `Bearer ${token}` } : {})
+                },
+                body: JSON.stringify(initialize)
+            });
+
+            expect((await post()).status).toBe(401);
+            expect((await post('wrong')).status).toBe(401);
+
+            const accepted = await post('secret');
+            expect(accepted.status).toBe(200);
+            expect(accepted.headers.get('mcp-session-id')).toBeTruthy();
+            await accepted.text();
+        } finally {
+            await server.stop();
+        }
+    });
+});
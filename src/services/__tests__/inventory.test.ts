@@ -0,0 +1,211 @@
+import { InventoryPayload, InventoryProduct, applyInventoryChanges, comparableInventory, summarizeInventory, toInventoryUpdatePayload } from '../../utils/inventory.js';
+
+const money = (amount: number) => ({ amount, divisor: 100, currency_code: 'USD' });
+
+function product(properties: Record<string, string>, price: number, quantity = 1, sku = ''): InventoryProduct {
+    const ids: Record<string, number> = { Size: 513, Color: 200 };
+    return {
+        sku,
+        property_values: Object.entries(properties).map(([name, value]) => ({
+            property_id: ids[name], property_name: name, scale_id: null, value_ids: [], values: [value]
+        })),
+        offerings: [{ price, quantity, is_enabled: true }]
+    };
+}
+
+function inventory(products: InventoryProduct[]): InventoryPayload {
+    return { products, price_on_property: [], quantity_on_property: [], sku_on_property: [] };
+}
+
+describe('Listing inventory helpers', () => {
+    describe('toInventoryUpdatePayload', () => {
+        it('should drop read-only fields and convert prices to decimals', () => {
+            const payload = toInventoryUpdatePayload({
+                products: [{
+                    product_id: 1,
+                    sku: 'MUG-S',
+                    is_deleted: false,
+                    property_values: [{ property_id: 513, property_name: 'Size', scale_id: null, scale_name: null, value_ids: [10], values: ['Small'] }],
+                    offerings: [
+                        { offering_id: 2, price: money(1250), quantity: 3, is_enabled: true, is_deleted: false },
+                        { offering_id: 3, price: money(999), quantity: 1, is_enabled: true, is_deleted: true }
+                    ]
+                }],
+                price_on_property: [513],
+                quantity_on_property: [],
+                sku_on_property: [513]
+            });
+
+            expect(payload).toEqual({
+                products: [{
+                    sku: 'MUG-S',
+                    property_values: [{ property_id: 513, property_name: 'Size', scale_id: null, value_ids: [10], values: ['Small'] }],
+                    offerings: [{ price: 12.5, quantity: 3, is_enabled: true }]
+                }],
+                price_on_property: [513],
+                quantity_on_property: [],
+                sku_on_property: [513]
+            });
+        });
+
+        it('should skip deleted products and default missing fields', () => {
+            const payload = toInventoryUpdatePayload({
+                products: [
+                    { sku: null, offerings: [{ price: 5, quantity: 2, is_enabled: false }] },
+                    { sku: 'OLD', is_deleted: true, offerings: [] }
+                ]
+            });
+
+            expect(payload.products).toEqual([{ sku: '', property_values: [], offerings: [{ price: 5, quantity: 2, is_enabled: false }] }]);
+            expect(payload.price_on_property).toEqual([]);
+            expect(payload.quantity_on_property).toEqual([]);
+            expect(payload.sku_on_property).toEqual([]);
+        });
+    });
+
+    describe('applyInventoryChanges', () => {
+        it('should update matching variations and add new ones', () => {
+            const result = applyInventoryChanges(inventory([product({ Size: 'Small' }, 10, 5)]), {
+                variations: [
+                    { properties: { size: 'small' }, quantity: 2 },
+                    { properties: { Size: 'Large' }, price: 14, sku: 'MUG-L' }
+                ]
+            });
+
+            expect(result.products.map(p => [p.property_values[0].values[0], p.offerings[0], p.sku])).toEqual([
+                ['Small', { price: 10, quantity: 2, is_enabled: true }, ''],
+                ['Large', { price: 14, quantity: 0, is_enabled: true }, 'MUG-L']
+            ]);
+            expect(result.products[1].property_values[0].property_id).toBe(513);
+            expect(result.price_on_property).toEqual([513]);
+            expect(result.quantity_on_property).toEqual([513]);
+            expect(result.sku_on_property).toEqual([513]);
+        });
+
+        it('should only price on the property that explains the price differences', () => {
+            const result = applyInventoryChanges(inventory([
+                product({ Size: 'Small', Color: 'Red' }, 10),
+                product({ Size: 'Small', Color: 'Blue' }, 10),
+                product({ Size: 'Large', Color: 'Red' }, 14),
+                product({ Size: 'Large', Color: 'Blue' }, 14)
+            ]), {});
+
+            expect(result.price_on_property).toEqual([513]);
+            expect(result.quantity_on_property).toEqual([]);
+        });
+
+        it('should use both properties when neither explains the differences alone', () => {
+            const result = applyInventoryChanges(inventory([
+                product({ Size: 'Small', Color: 'Red' }, 10),
+                product({ Size: 'Small', Color: 'Blue' }, 11),
+                product({ Size: 'Large', Color: 'Red' }, 14),
+                product({ Size: 'Large', Color: 'Blue' }, 10)
+            ]), {});
+
+            expect(result.price_on_property.sort()).toEqual([200, 513]);
+        });
+
+        it('should keep explicit on_property settings', () => {
+            const result = applyInventoryChanges(inventory([product({ Size: 'Small' }, 10), product({ Size: 'Large' }, 14)]), {
+                price_on_property: []
+            });
+            expect(result.price_on_property).toEqual([]);
+        });
+
+        it('should remove variations and replace the whole inventory', () => {
+            const base = inventory([product({ Size: 'Small' }, 10), product({ Size: 'Large' }, 14)]);
+            expect(applyInventoryChanges(base, { remove: [{ size: 'LARGE' }] }).products).toHaveLength(1);
+
+            const replaced = applyInventoryChanges(base, { replace: true, variations: [{ properties: { Size: 'Medium' }, price: 12 }] });
+            expect(replaced.products.map(p => p.property_values[0].values)).toEqual([['Medium']]);
+            expect(() => applyInventoryChanges(base, { remove: [{ Size: 'Small' }, { Size: 'Large' }] })).toThrow('no products');
+        });
+
+        it('should turn a variation-less listing into a varied one', () => {
+            const result = applyInventoryChanges(inventory([product({}, 10, 3)]), {
+                variations: [{ properties: { Finish: 'Matte' } }, { properties: { Finish: 'Glossy' }, price: 12 }]
+            });
+
+            expect(result.products.map(p => [p.property_values[0].property_id, p.offerings[0].price])).toEqual([[513, 10], [513, 12]]);
+        });
+
+        it('should reject new variations that name other properties than the existing ones', () => {
+            const base = inventory([product({ Size: 'Small', Color: 'Red' }, 10)]);
+            expect(() => applyInventoryChanges(base, { variations: [{ properties: { Size: 'Large' }, price: 12 }] }))
+                .toThrow('must name the same properties');
+            expect(() => applyInventoryChanges(inventory([product({ Size: 'Small' }, 10)]), {
+                variations: [{ properties: { Size: 'Large', Color: 'Red' }, price: 12 }]
+            })).toThrow('must name the same properties');
+        });
+
+        it('should reject a third variation property and new variations without a price', () => {
+            // New property names take the two custom property IDs
+            expect(() => applyInventoryChanges(inventory([]), {
+                variations: [{ properties: { Finish: 'Matte', Glaze: 'Celadon', Handle: 'Left' }, price: 10 }]
+            })).toThrow('at most two variation properties');
+            expect(() => applyInventoryChanges(inventory([]), { variations: [{ properties: { Size: 'Small' } }] }))
+                .toThrow('A price is required');
+        });
+    });
+
+    describe('summarizeInventory', () => {
+        it('should flatten products into readable rows', () => {
+            expect(summarizeInventory({
+                products: [
+                    {
+                        product_id: 1,
+                        sku: 'MUG-S',
+                        property_values: [
+                            { property_name: 'Size', values: ['Small'] },
+                            { property_name: 'Color', values: ['Red', 'Blue'] }
+                        ],
+                        offerings: [
+                            { price: money(1000), quantity: 0, is_enabled: false, is_deleted: true },
+                            { price: money(1250), quantity: 4, is_enabled: true, is_deleted: false }
+                        ]
+                    },
+                    { product_id: 2, is_deleted: true, offerings: [] }
+                ]
+            })).toEqual([{
+                product_id: 1,
+                sku: 'MUG-S',
+                properties: { Size: 'Small', Color: 'Red, Blue' },
+                price: 12.5,
+                currency: 'USD',
+                quantity: 4,
+                is_enabled: true
+            }]);
+        });
+    });
+
+    describe('comparableInventory', () => {
+        it('should match the inventory Etsy returns after an update that added a variation', () => {
+            const sent = applyInventoryChanges(inventory([product({ Size: 'Small' }, 10)]), {
+                variations: [{ properties: { Size: 'Large' }, price: 12, quantity: 2 }]
+            });
+            // Etsy assigns value_ids and scale_id, returns Money prices and may reorder products
+            const stored = {
+                products: [...sent.products].reverse().map((sentProduct, index) => ({
+                    product_id: index + 1,
+                    sku: sentProduct.sku,
+                    is_deleted: false,
+                    property_values: sentProduct.property_values.map(pv => ({ ...pv, scale_id: 7, scale_name: 'Letter', value_ids: [1000 + index] })),
+                    offerings: sentProduct.offerings.map(offering => ({ ...offering, offering_id: index + 10, price: money(offering.price * 100), is_deleted: false }))
+                })),
+                price_on_property: sent.price_on_property,
+                quantity_on_property: sent.quantity_on_property,
+                sku_on_property: sent.sku_on_property
+            };
+
+            expect(comparableInventory(stored)).toEqual(comparableInventory(sent));
+        });
+
+        it('should differ when a price, quantity or variation changed', () => {
+            const before = inventory([product({ Size: 'Small' }, 10), product({ Size: 'Large' }, 12)]);
+
+            expect(comparableInventory(inventory([product({ Size: 'Small' }, 11), product({ Size: 'Large' }, 12)]))).not.toEqual(comparableInventory(before));
+            expect(comparableInventory(inventory([product({ Size: 'Small' }, 10, 5), product({ Size: 'Large' }, 12)]))).not.toEqual(comparableInventory(before));
+            expect(comparableInventory(inventory([product({ Size: 'Small' }, 10)]))).not.toEqual(comparableInventory(before));
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import { feeCategory, normalizeLedgerEntry } from '../../utils/ledger.js';
+
+describe('Ledger helpers', () => {
+    it('should categorize ledger types', () => {
+        expect(feeCategory('transaction')).toBe('transaction_fee');
+        expect(feeCategory('transaction_quantity')).toBe('transaction_fee');
+        expect(feeCategory('listing')).toBe('listing_fee');
+        expect(feeCategory('renew_sold_auto')).toBe('listing_fee');
+        expect(feeCategory('PAYMENT_PROCESSING_FEE')).toBe('payment_processing_fee');
+        expect(feeCategory('offsite_ads_fee')).toBe('advertising_fee');
+        expect(feeCategory('shipping_label')).toBe('shipping_label');
+        expect(feeCategory('seller_subscription')).toBe('subscription_fee');
+        expect(feeCategory('DISBURSE')).toBe('payout');
+        expect(feeCategory('PAYMENT')).toBe('sale');
+        expect(feeCategory('sale')).toBe('sale');
+        expect(feeCategory('something_new')).toBe('other');
+        expect(feeCategory(undefined)).toBe('other');
+    });
+
+    it('should prefer the most specific category for compound ledger types', () => {
+        expect(feeCategory('vat_transaction')).toBe('tax');
+        expect(feeCategory('vat_listing')).toBe('tax');
+        expect(feeCategory('vat_shipping_label')).toBe('tax');
+        expect(feeCategory('vat_processing_fee')).toBe('tax');
+        expect(feeCategory('gst_offsite_ads_fee')).toBe('tax');
+        expect(feeCategory('REFUND_PROCESSING_FEE')).toBe('refund');
+        expect(feeCategory('shipping_label_refund')).toBe('refund');
+        expect(feeCategory('offsite_ads_fee_refund')).toBe('refund');
+    });
+
+    it('should normalize an entry with its payment', () => {
+        expect(normalizeLedgerEntry({
+            entry_id: 9,
+            ledger_type: 'transaction',
+            description: 'Transaction fee: Mug',
+            amount: -65,
+            balance: 12345,
+            currency: 'USD',
+            created_timestamp: 1706702400,
+            reference_type: 'payment',
+            reference_id: '77'
+        }, {
+            payment_id: 77,
+            receipt_id: 42,
+            amount_gross: { amount: 2000, divisor: 100, currency_code: 'USD' },
+            amount_fees: { amount: 90, divisor: 100, currency_code: 'USD' },
+            amount_net: { amount: 1910, divisor: 100, currency_code: 'USD' }
+        })).toEqual({
+            date: '2024-01-31T12:00:00.000Z',
+            entry_id: 9,
+            type: 'transaction',
+            description: 'Transaction fee: Mug',
+            amount: -0.65,
+            currency: 'USD',
+            fee_category: 'transaction_fee',
+            balance: 123.45,
+            reference_type: 'payment',
+            reference_id: '77',
+            receipt_id: 42,
+            payment_gross: 20,
+            payment_fees: 0.9,
+            payment_net: 19.1
+        });
+    });
+
+    it('should not divide amounts in zero-decimal currencies', () => {
+        const row = normalizeLedgerEntry({ entry_id: 10, ledger_type: 'sale', amount: 1500, balance: 3000, currency: 'JPY', create_date: 0 });
+        expect(row).toMatchObject({ date: '1970-01-01T00:00:00.000Z', amount: 1500, balance: 3000 });
+        expect(row.receipt_id).toBeUndefined();
+        expect(row.payment_gross).toBeUndefined();
+    });
+});
@@ -0,0 +1,61 @@
+import { flattenListing, LISTING_EXPORT_COLUMNS } from '../../utils/listingExport.js';
+import { validateImportRows } from '../listingImport.js';
+import { Listing } from '../etsyModels.js';
+
+describe('flattenListing', () => {
+    const listing: Listing = {
+        listing_id: 101,
+        state: 'active',
+        title: 'Mug',
+        description: 'Blue mug',
+        price: { amount: 2550, divisor: 100, currency_code: 'USD' },
+        quantity: 3,
+        who_made: 'i_did',
+        when_made: 'made_to_order',
+        taxonomy_id: 1062,
+        listing_type: 'both',
+        shipping_profile_id: 111,
+        tags: ['mug', 'blue'],
+        materials: ['clay'],
+        skus: [],
+        created_timestamp: 1704067200,
+        images: [
+            { listing_image_id: 1, url_fullxfull: 'https://i.etsystatic.com/1.jpg' },
+            { listing_image_id: 2, url_fullxfull: 'https://i.etsystatic.com/2.jpg' }
+        ],
+        shipping_profile: { shipping_profile_id: 111, title: 'Standard', origin_country_iso: 'US', min_processing_days: 1, max_processing_days: 3 }
+    };
+
+    it('should flatten money, lists, timestamps, images and the shipping profile', () => {
+        const row = flattenListing(listing);
+
+        expect(Object.keys(row)).toEqual(LISTING_EXPORT_COLUMNS);
+        expect(row).toEqual(expect.objectContaining({
+            price: 25.5,
+            currency: 'USD',
+            type: 'both',
+            tags: 'mug|blue',
+            materials: 'clay',
+            skus: '',
+            created: '2024-01-01T00:00:00.000Z',
+            updated: undefined,
+            image_count: 2,
+            image_urls: 'https://i.etsystatic.com/1.jpg|https://i.etsystatic.com/2.jpg',
+            variations: undefined,
+            shipping_profile_title: 'Standard',
+            max_processing_days: 3
+        }));
+    });
+
+    it('should fall back to type when listing_type is missing', () => {
+        expect(flattenListing({ listing_id: 1, title: 'Guide', state: 'draft', type: 'download' }).type).toBe('download');
+    });
+
+    it('should produce rows that import_listings accepts', () => {
+        const types = ['physical', 'download', 'both'];
+        const rows = validateImportRows(types.map(listingType => flattenListing({ ...listing, listing_type: listingType })));
+
+        expect(rows.map(row => row.errors)).toEqual([[], [], []]);
+        expect(rows.map(row => row.data?.type)).toEqual(types);
+    });
+});
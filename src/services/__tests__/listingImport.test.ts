@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readImportFile, validateImportRows } from '../listingImport.js';
+import { parseCsv, toCsv } from '../../utils/csv.js';
+
+describe('CSV helpers', () => {
+    it('should parse quoted fields, escaped quotes and embedded newlines', () => {
+        const csv = 'title,description\r\n"Mug, large","Says ""hi""\nand more"\r\nPlate,Simple\r\n';
+        expect(parseCsv(csv)).toEqual([
+            { title: 'Mug, large', description: 'Says "hi"\nand more' },
+            { title: 'Plate', description: 'Simple' }
+        ]);
+    });
+
+    it('should round-trip rows through toCsv and parseCsv', () => {
+        const rows = [{ title: 'A "quoted", title', price: 12.5 }, { title: 'Plain', price: 3 }];
+        expect(parseCsv(toCsv(rows))).toEqual([
+            { title: 'A "quoted", title', price: '12.5' },
+            { title: 'Plain', price: '3' }
+        ]);
+    });
+});
+
+describe('Listing import', () => {
+    let importDir: string;
+
+    beforeEach(() => {
+        importDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-import-'));
+        process.env.ETSY_IMPORT_SOURCE_DIR = importDir;
+    });
+
+    afterEach(() => {
+        fs.rmSync(importDir, { recursive: true, force: true });
+        delete process.env.ETSY_IMPORT_SOURCE_DIR;
+    });
+
+    it('should coerce CSV cells and validate rows with the create_listing rules', () => {
+        fs.writeFileSync(path.join(importDir, 'catalog.csv'), [
+            'title,description,price,quantity,who_made,when_made,taxonomy_id,type,shipping_profile_id,tags,image_files',
+            'Mug,Blue mug,25,3,i_did,made_to_order,1062,physical,111,mug|blue,mug1.jpg|mug2.jpg',
+            'Print,Art print,10,5,i_did,2020_2024,2078,physical,,,'
+        ].join('\n'));
+
+        const rows = validateImportRows(readImportFile('catalog.csv'));
+
+        expect(rows[0]).toEqual({
+            row: 1,
+            title: 'Mug',
+            data: expect.objectContaining({ price: 25, quantity: 3, taxonomy_id: 1062, shipping_profile_id: 111, tags: ['mug', 'blue'] }),
+            image_files: ['mug1.jpg', 'mug2.jpg'],
+            errors: []
+        });
+        expect(rows[1].data).toBeUndefined();
+        expect(rows[1].errors).toEqual([expect.stringContaining('shipping_profile_id is required')]);
+    });
+
+    it('should accept JSON files wrapped in a listings property', () => {
+        fs.writeFileSync(path.join(importDir, 'catalog.json'), JSON.stringify({
+            listings: [{ title: 'Pattern', description: 'PDF', price: 4, quantity: 999, who_made: 'i_did', when_made: 'made_to_order', taxonomy_id: 1, type: 'download' }]
+        }));
+
+        const rows = validateImportRows(readImportFile('catalog.json'));
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0].errors).toEqual([]);
+    });
+
+    it('should reject unsupported file types', () => {
+        fs.writeFileSync(path.join(importDir, 'catalog.txt'), '');
+        expect(() => readImportFile('catalog.txt')).toThrow('Unsupported import file type');
+    });
+});
@@ -0,0 +1,54 @@
+import { checkListingReadiness } from '../../utils/listingReadiness.js';
+
+describe('checkListingReadiness', () => {
+    const readyListing = {
+        title: 'Stoneware mug',
+        description: 'Hand-thrown, 350 ml',
+        taxonomy_id: 1063,
+        images: [{ listing_image_id: 1 }],
+        listing_type: 'physical',
+        shipping_profile_id: 77,
+        tags: ['mug'],
+        price: { amount: 2500, divisor: 100, currency_code: 'USD' },
+        quantity: 3
+    };
+
+    it('should accept a complete listing', () => {
+        expect(checkListingReadiness(readyListing)).toEqual([]);
+        expect(checkListingReadiness({ ...readyListing, listing_type: 'download', shipping_profile_id: null })).toEqual([]);
+    });
+
+    it('should list every missing field', () => {
+        expect(checkListingReadiness({ listing_type: 'physical' })).toEqual([
+            'Title is empty.',
+            'Description is empty.',
+            'No taxonomy_id (category) is set. Use search_taxonomy to find one.',
+            'Listing has no images. Upload at least one with upload_listing_image.',
+            'Physical listing has no shipping profile. Set shipping_profile_id with update_listing.',
+            'Listing has no tags. Add tags with update_listing.',
+            'Price must be at least 0.20 (currently not set).',
+            'Quantity must be at least 1.'
+        ]);
+    });
+
+    it('should require a shipping profile for listings that ship', () => {
+        const expected = ['Physical listing has no shipping profile. Set shipping_profile_id with update_listing.'];
+        expect(checkListingReadiness({ ...readyListing, shipping_profile_id: null })).toEqual(expected);
+        expect(checkListingReadiness({ ...readyListing, listing_type: 'both', shipping_profile_id: null })).toEqual(expected);
+        // Listing data in the create_listing format uses type instead of listing_type
+        expect(checkListingReadiness({ ...readyListing, listing_type: undefined, type: 'physical', shipping_profile_id: null })).toEqual(expected);
+    });
+
+    it('should reject blank text, low prices and zero quantity', () => {
+        expect(checkListingReadiness({
+            ...readyListing,
+            title: '   ',
+            price: { amount: 15, divisor: 100, currency_code: 'EUR' },
+            quantity: 0
+        })).toEqual([
+            'Title is empty.',
+            'Price must be at least 0.20 EUR (currently 0.15).',
+            'Quantity must be at least 1.'
+        ]);
+    });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { LOG_FILE, Logger, redact } from '../../utils/logger.js';
+
+describe('redact', () => {
+    it('should redact secret keys in nested objects and arrays', () => {
+        const value = {
+            profile: 'default',
+            tokens: { access_token: 'abc.def', refreshToken: 'r1', expires_at: 123 },
+            headers: [{ 'x-api-key': 'k1', Authorization: 'Bearer t1', accept: 'application/json' }],
+            empty_token: null
+        };
+
+        expect(redact(value)).toEqual({
+            profile: 'default',
+            tokens: { access_token: '[REDACTED]', refreshToken: '[REDACTED]', expires_at: 123 },
+            headers: [{ 'x-api-key': '[REDACTED]', Authorization: '[REDACTED]', accept: 'application/json' }],
+            empty_token: null
+        });
+    });
+
+    it('should keep flags and counts whose names only mention a secret', () => {
+        const value = { has_refresh_token: true, token_count: 2, token_type: 'Bearer', code_present: 'present' };
+
+        expect(redact(value)).toEqual(value);
+    });
+
+    it('should drop the request config of Axios errors and keep the response body', () => {
+        const config = { url: '/application/shops/1', headers: new AxiosHeaders({ Authorization: 'Bearer secret-access', 'x-api-key': 'secret-key' }) };
+        const response = { status: 401, statusText: 'Unauthorized', headers: {}, config, data: { error: 'invalid_token' } };
+        const error = new AxiosError('Request failed with status code 401', 'ERR_BAD_REQUEST', config, {}, response);
+
+        const serialized = redact(error) as Record<string, unknown>;
+
+        expect(serialized).toEqual(expect.objectContaining({
+            name: 'AxiosError',
+            message: 'Request failed with status code 401',
+            code: 'ERR_BAD_REQUEST',
+            response: { status: 401, data: { error: 'invalid_token' } }
+        }));
+        expect(serialized.config).toBeUndefined();
+        expect(JSON.stringify(serialized)).not.toMatch(/secret-access|secret-key/);
+    });
+
+    it('should redact OAuth parameters in URLs and bearer tokens in strings', () => {
+        expect(redact('GET /oauth/callback?code=abc123&state=xyz')).toBe('GET /oauth/callback?code=[REDACTED]&state=xyz');
+        expect(redact('grant_type=refresh_token&refresh_token=r1&client_id=id')).toBe('grant_type=refresh_token&refresh_token=[REDACTED]&client_id=id');
+        expect(redact('Authorization: Bearer 123.abc')).toBe('Authorization: Bearer [REDACTED]');
+    });
+
+    it('should mask configured secrets wherever they appear', () => {
+        const previous = process.env.ETSY_API_KEY;
+        process.env.ETSY_API_KEY = 'configured-key-123';
+        try {
+            expect(redact({ message: 'Invalid API key configured-key-123 for this app' })).toEqual({ message: 'Invalid API key [REDACTED] for this app' });
+        } finally {
+            if (previous === undefined) {
+                delete process.env.ETSY_API_KEY;
+            } else {
+                process.env.ETSY_API_KEY = previous;
+            }
+        }
+    });
+
+    it('should handle circular references', () => {
+        const value: Record<string, unknown> = { name: 'loop' };
+        value.self = value;
+
+        expect(redact(value)).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+});
+
+describe('Logger', () => {
+    const LOG_ENV = ['ETSY_MCP_LOG_PATH', 'ETSY_MCP_LOG_LEVEL', 'ETSY_MCP_LOG_STDERR_LEVEL', 'ETSY_MCP_LOG_MAX_SIZE_MB', 'ETSY_MCP_LOG_MAX_FILES', 'ETSY_MCP_LOG_RETENTION_DAYS'];
+    let logDir: string;
+    let logger: Logger;
+
+    const rotatedFiles = () => fs.readdirSync(logDir).filter(name => name !== LOG_FILE);
+    const readEntries = () => fs.readFileSync(path.join(logDir, LOG_FILE), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+    beforeEach(() => {
+        logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-logs-'));
+        process.env.ETSY_MCP_LOG_PATH = logDir;
+        process.env.ETSY_MCP_LOG_STDERR_LEVEL = 'error';
+        jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    });
+
+    afterEach(() => {
+        logger.close();
+        jest.useRealTimers();
+        LOG_ENV.forEach(name => delete process.env[name]);
+        fs.rmSync(logDir, { recursive: true, force: true });
+    });
+
+    it('should write redacted JSON lines at or above the configured level', () => {
+        process.env.ETSY_MCP_LOG_LEVEL = 'info';
+        logger = new Logger();
+
+        logger.debug('Not written');
+        logger.info('Token refreshed', { access_token: 'abc', expires_in: 3600 });
+
+        expect(readEntries()).toEqual([expect.objectContaining({
+            timestamp: '2026-03-01T10:00:00.000Z',
+            level: 'info',
+            message: 'Token refreshed',
+            data: { access_token: '[REDACTED]', expires_in: 3600 }
+        })]);
+    });
+
+    it('should rotate when the file is full and keep at most the configured number of rotated files', () => {
+        // About 200 bytes, so every second entry starts a new file
+        process.env.ETSY_MCP_LOG_MAX_SIZE_MB = String(200 / (1024 * 1024));
+        process.env.ETSY_MCP_LOG_MAX_FILES = '2';
+        logger = new Logger();
+
+        for (let i = 0; i < 8; i++) {
+            logger.info(`Entry ${i} ${'x'.repeat(60)}`);
+            jest.advanceTimersByTime(1000);
+        }
+
+        expect(rotatedFiles()).toHaveLength(2);
+        expect(rotatedFiles().every(name => /^mcp-server-.+\.log$/.test(name))).toBe(true);
+        expect(readEntries().map(entry => entry.message)).toEqual([`Entry 7 ${'x'.repeat(60)}`]);
+    });
+
+    it('should start a new file on the first write of a new UTC day', () => {
+        logger = new Logger();
+        logger.info('Day one');
+        jest.setSystemTime(new Date('2026-03-02T00:00:01Z'));
+        logger.info('Day two');
+
+        expect(rotatedFiles()).toHaveLength(1);
+        expect(readEntries().map(entry => entry.message)).toEqual(['Day two']);
+    });
+
+    it('should delete rotated files older than the retention period', () => {
+        process.env.ETSY_MCP_LOG_RETENTION_DAYS = '7';
+        const old = path.join(logDir, 'mcp-server-2026-02-01T00-00-00-000Z.log');
+        const recent = path.join(logDir, 'mcp-server-2026-02-27T00-00-00-000Z.log');
+        fs.writeFileSync(old, '');
+        fs.writeFileSync(recent, '');
+        fs.utimesSync(old, new Date('2026-02-01T00:00:00Z'), new Date('2026-02-01T00:00:00Z'));
+        fs.utimesSync(recent, new Date('2026-02-27T00:00:00Z'), new Date('2026-02-27T00:00:00Z'));
+        logger = new Logger();
+
+        logger.info('Started');
+
+        expect(rotatedFiles()).toEqual([path.basename(recent)]);
+    });
+});
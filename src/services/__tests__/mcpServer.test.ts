@@ -171,7 +171,7 @@ describe('EtsyMCPServer', () => {
         });
 
         it('should handle get listings request', async () => {
-            const mockListings = [{ id: 1, title: 'Test Listing' }];
+            const mockListings = { count: 1, results: [{ listing_id: 1, title: 'Test Listing', state: 'active' }] };
             mockTokenStorage.getTokens.mockReturnValue({ access_token: 'test-token' });
             mockEtsyApi.getListings.mockResolvedValue(mockListings);
 
@@ -199,7 +199,7 @@ describe('EtsyMCPServer', () => {
         });
 
         it('should handle get shop details request', async () => {
-            const mockShopDetails = { id: 123, name: 'Test Shop' };
+            const mockShopDetails = { shop_id: 123, shop_name: 'Test Shop', user_id: 1 };
             mockTokenStorage.getTokens.mockReturnValue({ access_token: 'test-token' });
             mockEtsyApi.getShopDetails.mockResolvedValue(mockShopDetails);
 
@@ -227,7 +227,7 @@ describe('EtsyMCPServer', () => {
         });
 
         it('should handle create listing request', async () => {
-            const mockNewListing = { id: 1, title: 'New Listing' };
+            const mockNewListing = { listing_id: 1, title: 'New Listing', state: 'draft' };
             mockTokenStorage.getTokens.mockReturnValue({ access_token: 'test-token' });
             mockEtsyApi.createListing.mockResolvedValue(mockNewListing);
 
@@ -0,0 +1,21 @@
+import { moneyToNumber, toDecimalAmount } from '../../utils/money.js';
+
+describe('Money helpers', () => {
+    it('should convert Etsy Money objects to decimals', () => {
+        expect(moneyToNumber({ amount: 2500, divisor: 100, currency_code: 'USD' })).toBe(25);
+        expect(moneyToNumber({ amount: 1999, divisor: 100, currency_code: 'EUR' })).toBe(19.99);
+        expect(moneyToNumber({ amount: 1500, divisor: 1, currency_code: 'JPY' })).toBe(1500);
+        // A missing divisor means the amount is already a whole unit
+        expect(moneyToNumber({ amount: 7, divisor: 0, currency_code: 'USD' })).toBe(7);
+    });
+
+    it('should convert ledger amounts in minor units to decimals', () => {
+        expect(toDecimalAmount(1234, 'USD')).toBe(12.34);
+        expect(toDecimalAmount(-65)).toBe(-0.65);
+        expect(toDecimalAmount(1500, 'jpy')).toBe(1500);
+        expect(toDecimalAmount({ amount: 995, divisor: 100, currency_code: 'GBP' })).toBe(9.95);
+        expect(toDecimalAmount(0, 'USD')).toBe(0);
+        expect(toDecimalAmount(null)).toBeUndefined();
+        expect(toDecimalAmount(undefined)).toBeUndefined();
+    });
+});
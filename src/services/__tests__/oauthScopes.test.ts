@@ -0,0 +1,34 @@
+import { DEFAULT_SCOPES, getConfiguredScopes, missingScopes, parseScopes } from '../oauthScopes.js';
+
+describe('oauthScopes', () => {
+    const originalScopes = process.env.ETSY_OAUTH_SCOPES;
+
+    afterEach(() => {
+        process.env.ETSY_OAUTH_SCOPES = originalScopes;
+        if (originalScopes === undefined) {
+            delete process.env.ETSY_OAUTH_SCOPES;
+        }
+    });
+
+    it('should parse space- and comma-separated scope strings', () => {
+        expect(parseScopes('listings_r, listings_w shops_r listings_r')).toEqual(['listings_r', 'listings_w', 'shops_r']);
+        expect(parseScopes(undefined)).toEqual([]);
+    });
+
+    it('should use the defaults unless ETSY_OAUTH_SCOPES is set', () => {
+        delete process.env.ETSY_OAUTH_SCOPES;
+        expect(getConfiguredScopes()).toEqual(DEFAULT_SCOPES);
+
+        process.env.ETSY_OAUTH_SCOPES = 'listings_r transactions_r';
+        expect(getConfiguredScopes()).toEqual(['listings_r', 'transactions_r']);
+    });
+
+    it('should reject unknown scopes in ETSY_OAUTH_SCOPES', () => {
+        process.env.ETSY_OAUTH_SCOPES = 'listings_r orders_r';
+        expect(() => getConfiguredScopes()).toThrow('orders_r');
+    });
+
+    it('should list required scopes that were not granted', () => {
+        expect(missingScopes(['listings_r', 'listings_w'], ['listings_r', 'listings_d'])).toEqual(['listings_d']);
+    });
+});
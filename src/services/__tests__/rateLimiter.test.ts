@@ -0,0 +1,71 @@
+import { RateLimiter, backoffDelay, parseRetryAfter } from '../rateLimiter.js';
+import { EtsyQuotaExhaustedError, EtsyRateLimitedError } from '../etsyApiError.js';
+
+describe('RateLimiter', () => {
+    it('should delay requests beyond the per-second limit', async () => {
+        const limiter = new RateLimiter(2);
+        const start = Date.now();
+
+        await Promise.all([limiter.acquire('GET', '/a'), limiter.acquire('GET', '/b'), limiter.acquire('GET', '/c')]);
+
+        expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+        expect(limiter.getStatus().total_requests).toBe(3);
+    });
+
+    it('should track quota reported in Etsy response headers', () => {
+        const limiter = new RateLimiter();
+
+        limiter.updateFromHeaders({
+            'x-limit-per-second': '5',
+            'x-remaining-this-second': '4',
+            'x-limit-per-day': '5000',
+            'x-remaining-today': '4321'
+        });
+
+        expect(limiter.getStatus()).toEqual(expect.objectContaining({
+            limit_per_second: 5,
+            remaining_this_second: 4,
+            limit_per_day: 5000,
+            remaining_today: 4321
+        }));
+    });
+
+    it('should fail fast once the daily quota is exhausted', async () => {
+        jest.useFakeTimers({ now: new Date('2026-03-01T18:00:00Z') });
+        const limiter = new RateLimiter();
+        limiter.updateFromHeaders({ 'x-remaining-today': '0' });
+
+        const error = await limiter.acquire('GET', '/application/shops/1').catch(caught => caught);
+
+        expect(error).toBeInstanceOf(EtsyQuotaExhaustedError);
+        expect(error).toBeInstanceOf(EtsyRateLimitedError);
+        expect(error.message).toContain('daily API quota is exhausted');
+        expect(error.retryAfterMs).toBe(6 * 60 * 60 * 1000);
+        expect(error.toJSON()).toEqual(expect.objectContaining({
+            type: 'EtsyQuotaExhaustedError',
+            endpoint: '/application/shops/1',
+            retryable: true,
+            retry_after_ms: 6 * 60 * 60 * 1000,
+            resets_at: '2026-03-02T00:00:00.000Z',
+            remediation: expect.stringContaining('2026-03-02T00:00:00.000Z')
+        }));
+        jest.useRealTimers();
+    });
+});
+
+describe('Retry helpers', () => {
+    it('should parse Retry-After seconds and HTTP dates', () => {
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter(undefined)).toBeNull();
+        const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+        expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+    });
+
+    it('should cap jittered backoff delays', () => {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            const delay = backoffDelay(attempt, 500, 4000);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(Math.min(4000, 500 * 2 ** attempt));
+        }
+    });
+});
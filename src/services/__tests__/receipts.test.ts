@@ -0,0 +1,49 @@
+import { summarizeReceipt } from '../../utils/receipts.js';
+
+describe('summarizeReceipt', () => {
+    it('should flatten a receipt with its transactions', () => {
+        expect(summarizeReceipt({
+            receipt_id: 42,
+            status: 'Paid',
+            name: 'Ada Buyer',
+            buyer_email: 'ada@example.com',
+            create_timestamp: 1706702400,
+            is_paid: true,
+            is_shipped: false,
+            grandtotal: { amount: 3450, divisor: 100, currency_code: 'EUR' },
+            city: 'Berlin',
+            state: '',
+            country_iso: 'DE',
+            message_from_buyer: 'Gift wrap please',
+            transactions: [{
+                listing_id: 7,
+                title: 'Mug',
+                quantity: 2,
+                sku: 'MUG-S',
+                variations: [{ formatted_name: 'Size', formatted_value: 'Small' }]
+            }]
+        })).toEqual({
+            receipt_id: 42,
+            status: 'Paid',
+            buyer_name: 'Ada Buyer',
+            buyer_email: 'ada@example.com',
+            created: '2024-01-31T12:00:00.000Z',
+            is_paid: true,
+            is_shipped: false,
+            grandtotal: 34.5,
+            currency: 'EUR',
+            ship_to: 'Berlin, DE',
+            items: [{ listing_id: 7, title: 'Mug', quantity: 2, sku: 'MUG-S', variations: ['Size: Small'] }],
+            message_from_buyer: 'Gift wrap please'
+        });
+    });
+
+    it('should fall back to created_timestamp and omit missing parts', () => {
+        const summary = summarizeReceipt({ receipt_id: 1, created_timestamp: 0, message_from_buyer: '' });
+        expect(summary.created).toBe('1970-01-01T00:00:00.000Z');
+        expect(summary.grandtotal).toBeUndefined();
+        expect(summary.ship_to).toBe('');
+        expect(summary.items).toEqual([]);
+        expect(summary.message_from_buyer).toBeUndefined();
+    });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryLruStore, PersistentLruStore, ResponseCache, tagsForEndpoint } from '../responseCache.js';
+
+describe('ResponseCache', () => {
+    let cache: ResponseCache;
+
+    beforeEach(() => {
+        cache = new ResponseCache(new MemoryLruStore(10));
+    });
+
+    it('should evict the least recently used entry', () => {
+        cache = new ResponseCache(new MemoryLruStore(3));
+        ['/a', '/b', '/c'].forEach(endpoint => cache.save(endpoint, endpoint, { endpoint }));
+        cache.lookup('/a');
+        cache.save('/d', '/d', {});
+
+        expect(cache.lookup('/a')).toBeDefined();
+        expect(cache.lookup('/b')).toBeUndefined();
+    });
+
+    it('should invalidate cached reads that share a shop or listing with a mutation', () => {
+        cache.save('u:/application/shops/1', '/application/shops/1', { shop_id: 1 });
+        cache.save('u:/application/shops/1/listings?state=active', '/application/shops/1/listings?state=active', { results: [] });
+        cache.save('u:/application/listings/5', '/application/listings/5', { listing_id: 5 });
+        cache.save('u:/application/shops/2', '/application/shops/2', { shop_id: 2 });
+
+        // A listing-only endpoint still invalidates listing collections of every shop
+        expect(cache.invalidateForMutation('/application/listings/5')).toBe(2);
+        expect(cache.lookup('u:/application/shops/1')).toBeDefined();
+        expect(cache.lookup('u:/application/shops/2')).toBeDefined();
+    });
+
+    it('should drop expired entries without an ETag and keep those with one for revalidation', () => {
+        cache.save('plain', '/application/shops/1', {});
+        cache.save('tagged', '/application/shops/2', {}, '"abc"');
+        jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 60 * 1000);
+
+        expect(cache.lookup('plain')).toBeUndefined();
+        expect(cache.lookup('tagged')).toEqual(expect.objectContaining({ fresh: false }));
+
+        jest.restoreAllMocks();
+    });
+
+    it('should return copies of cached data', () => {
+        cache.save('key', '/application/shops/1', { nested: { value: 1 } });
+        const copy = ResponseCache.dataOf<any>(cache.lookup('key')!.entry);
+        copy.nested.value = 2;
+
+        expect(ResponseCache.dataOf<any>(cache.lookup('key')!.entry).nested.value).toBe(1);
+    });
+
+    it('should tag endpoints by shop, listing and collection', () => {
+        expect(tagsForEndpoint('/application/shops/1/listings/2')).toEqual(['shop:1', 'listing:2', 'listings']);
+    });
+
+    it('should keep receipts, transactions and payments out of the persisted cache file', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-cache-'));
+        const file = path.join(dir, 'response-cache.json');
+        jest.useFakeTimers();
+        try {
+            const store = new PersistentLruStore(file);
+            cache = new ResponseCache(store);
+            cache.save('u:/application/shops/1', '/application/shops/1', { shop_id: 1 });
+            cache.save('u:/application/shops/1/receipts?limit=100', '/application/shops/1/receipts?limit=100', { results: [{ name: 'Buyer' }] });
+            cache.save('u:/application/shops/1/payments?payment_ids=9', '/application/shops/1/payments?payment_ids=9', { results: [] });
+            jest.advanceTimersByTime(1000);
+
+            const saved: Array<[string, unknown]> = JSON.parse(fs.readFileSync(file, 'utf8'));
+            expect(saved.map(([key]) => key)).toEqual(['u:/application/shops/1']);
+            // Still served from memory for this process
+            expect(cache.lookup('u:/application/shops/1/receipts?limit=100')).toBeDefined();
+
+            // Entries with buyer data in files from earlier versions are not loaded
+            fs.writeFileSync(file, JSON.stringify([...saved, ['u:/application/shops/1/receipts/5', { data: {}, storedAt: 0, expiresAt: 0, tags: [] }]]));
+            expect(new PersistentLruStore(file).keys()).toEqual(['u:/application/shops/1']);
+        } finally {
+            jest.useRealTimers();
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
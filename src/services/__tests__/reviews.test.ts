@@ -0,0 +1,45 @@
+import { summarizeReviews } from '../../utils/reviews.js';
+
+describe('summarizeReviews', () => {
+    const reviews = [
+        { listing_id: 1, transaction_id: 11, rating: 5, review: 'Lovely', created_timestamp: 1706702400 },
+        { listing_id: 1, transaction_id: 12, rating: 2, review: 'Chipped', created_timestamp: 1706702400 },
+        { listing_id: 2, transaction_id: 13, rating: 1, review: 'Never arrived', create_timestamp: 0 },
+        { listing_id: 3, transaction_id: 14, rating: 4, review: '' },
+        { transaction_id: 15, rating: 3, review: 'OK' }
+    ];
+
+    it('should compute the average and the rating distribution', () => {
+        const summary = summarizeReviews(reviews);
+        expect(summary.review_count).toBe(5);
+        expect(summary.average_rating).toBe(3);
+        expect(summary.rating_distribution).toEqual({ '1': 1, '2': 1, '3': 1, '4': 1, '5': 1 });
+    });
+
+    it('should rank listings by average rating, then by review count', () => {
+        expect(summarizeReviews(reviews).lowest_rated_listings).toEqual([
+            { listing_id: 2, average_rating: 1, review_count: 1 },
+            { listing_id: 1, average_rating: 3.5, review_count: 2 },
+            { listing_id: 3, average_rating: 4, review_count: 1 }
+        ]);
+        expect(summarizeReviews(reviews, 3, 1).lowest_rated_listings.map(listing => listing.listing_id)).toEqual([2]);
+    });
+
+    it('should list reviews at or below the threshold', () => {
+        expect(summarizeReviews(reviews, 2).low_rated_reviews).toEqual([
+            { listing_id: 1, transaction_id: 12, rating: 2, review: 'Chipped', created: '2024-01-31T12:00:00.000Z' },
+            { listing_id: 2, transaction_id: 13, rating: 1, review: 'Never arrived', created: '1970-01-01T00:00:00.000Z' }
+        ]);
+        expect(summarizeReviews(reviews).low_rated_reviews.map(review => review.transaction_id)).toEqual([12, 13, 15]);
+    });
+
+    it('should report no average without reviews', () => {
+        expect(summarizeReviews([])).toEqual({
+            review_count: 0,
+            average_rating: null,
+            rating_distribution: { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 },
+            lowest_rated_listings: [],
+            low_rated_reviews: []
+        });
+    });
+});
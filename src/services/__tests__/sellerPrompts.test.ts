@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listingFromNotesPrompt, negativeReviewPrompt, promptResult, readNotesFile } from '../sellerPrompts.js';
+
+describe('Seller prompts', () => {
+    let importDir: string;
+
+    beforeEach(() => {
+        importDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-notes-'));
+        process.env.ETSY_IMPORT_SOURCE_DIR = importDir;
+    });
+
+    afterEach(() => {
+        fs.rmSync(importDir, { recursive: true, force: true });
+        delete process.env.ETSY_IMPORT_SOURCE_DIR;
+    });
+
+    it('should read notes files from the import directory only', () => {
+        fs.writeFileSync(path.join(importDir, 'mug.md'), 'Hand-thrown stoneware mug');
+        expect(readNotesFile('mug.md')).toBe('Hand-thrown stoneware mug');
+        // Directory components are stripped, so files outside the import directory cannot be read
+        expect(readNotesFile('../../mug.md')).toBe('Hand-thrown stoneware mug');
+
+        fs.writeFileSync(path.join(importDir, 'catalog.csv'), 'title\nMug');
+        expect(() => readNotesFile('catalog.csv')).toThrow('.txt or .md');
+        expect(() => readNotesFile('missing.txt')).toThrow('not found');
+    });
+
+    it('should embed the live shop data in the prompt message', () => {
+        const result = promptResult('Draft a listing', listingFromNotesPrompt({
+            notes: 'Hand-thrown stoneware mug\n350 ml, dishwasher safe',
+            shop: { shop_id: 1, shop_name: 'Acme' },
+            shippingProfiles: [{ shipping_profile_id: 77, title: 'Ceramics' }],
+            categories: [{ taxonomy_id: 1063, name: 'Mugs' }]
+        }));
+
+        expect(result.messages).toHaveLength(1);
+        expect(result.messages[0].role).toBe('user');
+        const text = result.messages[0].content.text;
+        expect(text).toContain('350 ml, dishwasher safe');
+        expect(text).toContain('"shipping_profile_id": 77');
+        expect(text).toContain('"taxonomy_id": 1063');
+        expect(text).toContain('create_listing');
+    });
+
+    it('should leave out the listing section when the listing is unknown', () => {
+        const text = negativeReviewPrompt({ review: { rating: 1, review: 'Arrived broken' } });
+        expect(text).toContain('Arrived broken');
+        expect(text).not.toContain('Reviewed listing');
+    });
+});
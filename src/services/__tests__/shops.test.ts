@@ -0,0 +1,45 @@
+import { findShopByName, summarizeShop } from '../../utils/shops.js';
+
+describe('findShopByName', () => {
+    const shops = [
+        { shop_id: 1, shop_name: 'BlueClayStudio', user_id: 9, title: 'Handmade stoneware' },
+        { shop_id: 2, shop_name: 'PaperFoxPrints', user_id: 9, title: 'Art prints' }
+    ];
+
+    it('should match names ignoring case and separators', () => {
+        expect(findShopByName(shops, 'blue clay studio')).toEqual({ shop: shops[0], candidates: [shops[0]] });
+    });
+
+    it('should match partial names', () => {
+        expect(findShopByName(shops, 'paperfox').shop).toBe(shops[1]);
+    });
+
+    it('should report every shop when nothing matches', () => {
+        expect(findShopByName(shops, 'zzz')).toEqual({ reason: 'no_match', candidates: shops });
+    });
+
+    it('should report a tie as ambiguous even when every shop ties', () => {
+        const twins = [
+            { shop_id: 3, shop_name: 'ClayWorksNorth', user_id: 9 },
+            { shop_id: 4, shop_name: 'ClayWorksSouth', user_id: 9 }
+        ];
+
+        expect(findShopByName(twins, 'clayworks')).toEqual({ reason: 'ambiguous', candidates: twins });
+    });
+});
+
+describe('summarizeShop', () => {
+    it('should fill missing fields and flag the default shop', () => {
+        expect(summarizeShop({ shop_id: 1, shop_name: 'BlueClayStudio', user_id: 9 }, 1)).toEqual({
+            shop_id: 1,
+            shop_name: 'BlueClayStudio',
+            title: null,
+            currency_code: null,
+            active_listings: null,
+            is_vacation: false,
+            url: null,
+            is_default: true
+        });
+        expect(summarizeShop({ shop_id: 2, shop_name: 'PaperFoxPrints', user_id: 9, is_vacation: true }).is_default).toBe(false);
+    });
+});
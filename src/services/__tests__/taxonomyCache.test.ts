@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('TaxonomyCache', () => {
+    let storageDir: string;
+    let etsyApi: typeof import('../etsyApi.js')['etsyApi'];
+    let TaxonomyCache: typeof import('../taxonomyCache.js')['TaxonomyCache'];
+    let getNodes: jest.SpyInstance;
+    let getProperties: jest.SpyInstance;
+
+    const tree = {
+        count: 1,
+        results: [{
+            id: 1, name: 'Home & Living', level: 0, parent_id: null,
+            children: [{ id: 2, name: 'Kitchen & Dining', level: 1, parent_id: 1, children: [{ id: 3, name: 'Coffee Mugs', level: 2, parent_id: 2, children: [] }] }]
+        }]
+    };
+
+    beforeAll(async () => {
+        // The API client reads its credentials when the module is loaded
+        process.env.ETSY_API_KEY = process.env.ETSY_API_KEY || 'test-key';
+        process.env.ETSY_CLIENT_SECRET = process.env.ETSY_CLIENT_SECRET || 'test-secret';
+        ({ etsyApi } = await import('../etsyApi.js'));
+        ({ TaxonomyCache } = await import('../taxonomyCache.js'));
+    });
+
+    beforeEach(() => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-taxonomy-'));
+        process.env.ETSY_MCP_TOKEN_PATH = storageDir;
+        getNodes = jest.spyOn(etsyApi, 'getSellerTaxonomyNodes').mockResolvedValue(tree as any);
+        getProperties = jest.spyOn(etsyApi, 'getSellerTaxonomyNodeProperties').mockResolvedValue({ count: 1, results: [{ property_id: 200, name: 'Color' }] } as any);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(storageDir, { recursive: true, force: true });
+        delete process.env.ETSY_MCP_TOKEN_PATH;
+        delete process.env.ETSY_TAXONOMY_CACHE_TTL_HOURS;
+    });
+
+    function writeTaxonomyFile(fetchedAt: number) {
+        fs.writeFileSync(path.join(storageDir, 'taxonomy.json'), JSON.stringify({
+            fetched_at: fetchedAt,
+            nodes: [{ id: 9, name: 'Cached Node', level: 0, parent_id: null, path: ['Cached Node'], children_ids: [] }]
+        }));
+    }
+
+    it('should flatten the tree with full paths and persist it', async () => {
+        const nodes = await new TaxonomyCache().getNodes();
+
+        expect(nodes.map(node => [node.id, node.path.join(' > '), node.children_ids])).toEqual([
+            [1, 'Home & Living', [2]],
+            [2, 'Home & Living > Kitchen & Dining', [3]],
+            [3, 'Home & Living > Kitchen & Dining > Coffee Mugs', []]
+        ]);
+        // A new instance reads the file instead of calling Etsy again
+        await new TaxonomyCache().getNodes();
+        expect(getNodes).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh a cache file older than the TTL', async () => {
+        process.env.ETSY_TAXONOMY_CACHE_TTL_HOURS = '1';
+        writeTaxonomyFile(Date.now() - 30 * 60 * 1000);
+        expect((await new TaxonomyCache().getNodes()).map(node => node.id)).toEqual([9]);
+
+        writeTaxonomyFile(Date.now() - 2 * 60 * 60 * 1000);
+        expect((await new TaxonomyCache().getNodes()).map(node => node.id)).toEqual([1, 2, 3]);
+        expect(getNodes).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve stale data when Etsy cannot be reached', async () => {
+        getNodes.mockRejectedValue(new Error('network down'));
+        writeTaxonomyFile(0);
+        expect((await new TaxonomyCache().getNodes()).map(node => node.id)).toEqual([9]);
+
+        fs.rmSync(path.join(storageDir, 'taxonomy.json'));
+        await expect(new TaxonomyCache().getNodes()).rejects.toThrow('network down');
+    });
+
+    it('should cache properties per node and fall back to stale ones', async () => {
+        const cache = new TaxonomyCache();
+        expect(await cache.getProperties(3)).toEqual([{ property_id: 200, name: 'Color' }]);
+        await cache.getProperties(3);
+        expect(getProperties).toHaveBeenCalledTimes(1);
+
+        getProperties.mockRejectedValue(new Error('network down'));
+        expect(await cache.getProperties(3, true)).toEqual([{ property_id: 200, name: 'Color' }]);
+        await expect(cache.getProperties(4)).rejects.toThrow('network down');
+    });
+
+    it('should rank leaf categories that match the query first', async () => {
+        const results = await new TaxonomyCache().search('mug', 2);
+        expect(results[0]).toMatchObject({ taxonomy_id: 3, full_path: 'Home & Living > Kitchen & Dining > Coffee Mugs', is_leaf: true });
+        expect(results).toHaveLength(1);
+    });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EncryptedFileBackend, MemoryBackend, TokenDecryptionError } from '../tokenBackends.js';
+import { migratePlaintextTokens } from '../tokenStorage.js';
+
+describe('EncryptedFileBackend', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-mcp-backend-'));
+        filePath = path.join(dir, 'tokens.enc');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip contents without writing them in plaintext', () => {
+        const backend = new EncryptedFileBackend(filePath, 'correct horse');
+        backend.write('{"access_token":"secret-token"}');
+
+        expect(fs.readFileSync(filePath, 'utf8')).not.toContain('secret-token');
+        expect(new EncryptedFileBackend(filePath, 'correct horse').read()).toBe('{"access_token":"secret-token"}');
+    });
+
+    it('should reject the wrong secret', () => {
+        new EncryptedFileBackend(filePath, 'correct horse').write('{}');
+
+        expect(() => new EncryptedFileBackend(filePath, 'battery staple').read()).toThrow(TokenDecryptionError);
+    });
+
+    it('should reject a modified file', () => {
+        const backend = new EncryptedFileBackend(filePath, 'correct horse');
+        backend.write('{"access_token":"secret-token"}');
+        const envelope = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const data = Buffer.from(envelope.data, 'base64');
+        data[0] ^= 0xff;
+        fs.writeFileSync(filePath, JSON.stringify({ ...envelope, data: data.toString('base64') }));
+
+        expect(() => backend.read()).toThrow(TokenDecryptionError);
+    });
+
+    it('should use a fresh IV for every write', () => {
+        const backend = new EncryptedFileBackend(filePath, 'correct horse');
+        backend.write('{}');
+        const first = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        backend.write('{}');
+        const second = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+        expect(second.iv).not.toBe(first.iv);
+        expect(second.salt).toBe(first.salt);
+    });
+});
+
+describe('MemoryBackend', () => {
+    it('should start with the given contents and forget them on clear', () => {
+        const backend = new MemoryBackend('{}');
+        expect(backend.read()).toBe('{}');
+
+        backend.clear();
+        expect(backend.read()).toBeNull();
+    });
+});
+
+describe('migratePlaintextTokens', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-mcp-migrate-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should encrypt a single-account tokens.json and remove the plaintext file', () => {
+        fs.writeFileSync(path.join(dir, 'tokens.json'), JSON.stringify({ access_token: '1.a', user_id: 1 }));
+
+        const result = migratePlaintextTokens('correct horse', { storagePath: dir });
+
+        expect(result.profiles).toBe(1);
+        expect(fs.existsSync(path.join(dir, 'tokens.json'))).toBe(false);
+        const store = JSON.parse(new EncryptedFileBackend(path.join(dir, 'tokens.enc'), 'correct horse').read()!);
+        expect(store.profiles.default.access_token).toBe('1.a');
+    });
+
+    it('should not replace an existing encrypted file unless asked to', () => {
+        fs.writeFileSync(path.join(dir, 'tokens.json'), JSON.stringify({ active_profile: 'main', profiles: {} }));
+        fs.writeFileSync(path.join(dir, 'tokens.enc'), '{}');
+
+        expect(() => migratePlaintextTokens('correct horse', { storagePath: dir })).toThrow('already exists');
+        expect(fs.existsSync(path.join(dir, 'tokens.json'))).toBe(true);
+    });
+});
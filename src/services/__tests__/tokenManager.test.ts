@@ -0,0 +1,93 @@
+import { TokenManager } from '../tokenManager.js';
+import { TokenStorage } from '../tokenStorage.js';
+import { EtsyApiError, EtsyAuthExpiredError } from '../etsyApiError.js';
+import { etsyApi } from '../etsyApi.js';
+
+jest.mock('../etsyApi.js', () => ({
+    etsyApi: { refreshToken: jest.fn(), setAccessToken: jest.fn() }
+}));
+jest.mock('../rateLimiter.js', () => ({
+    backoffDelay: () => 0,
+    sleep: () => Promise.resolve()
+}));
+
+const refreshToken = etsyApi.refreshToken as jest.Mock;
+
+describe('TokenManager', () => {
+    let storage: TokenStorage;
+    let manager: TokenManager;
+
+    beforeAll(() => {
+        process.env.ETSY_MCP_TOKEN_STORAGE = 'memory';
+        storage = TokenStorage.getInstance();
+    });
+
+    beforeEach(() => {
+        refreshToken.mockReset();
+        storage.listProfiles().forEach(profile => storage.removeProfile(profile.name));
+        manager = new TokenManager(storage);
+    });
+
+    afterEach(() => {
+        manager.stop();
+    });
+
+    function storeTokens(expiresInMs: number) {
+        storage.saveTokens({ access_token: 'old', refresh_token: 'refresh-1', user_id: 1, shop_id: 9, expires_at: Date.now() + expiresInMs }, 'main');
+        storage.setActiveProfile('main');
+    }
+
+    it('should return a token that is not close to expiry without refreshing', async () => {
+        storeTokens(60 * 60 * 1000);
+
+        await expect(manager.getValidAccessToken()).resolves.toBe('old');
+        expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+        storeTokens(-1000);
+        refreshToken.mockResolvedValue({ access_token: 'new', refresh_token: 'refresh-2', expires_in: 3600 });
+
+        const tokens = await Promise.all([manager.getValidAccessToken(), manager.getValidAccessToken(), manager.getValidAccessToken()]);
+
+        expect(tokens).toEqual(['new', 'new', 'new']);
+        expect(refreshToken).toHaveBeenCalledTimes(1);
+        expect(storage.getTokens('main')).toEqual(expect.objectContaining({ access_token: 'new', refresh_token: 'refresh-2', shop_id: 9 }));
+    });
+
+    it('should refresh ahead of expiry and keep the current token if that fails transiently', async () => {
+        storeTokens(60 * 1000);
+        refreshToken.mockRejectedValue(new EtsyApiError('down', { method: 'POST', endpoint: '/public/oauth/token', status: 503, retryable: true }));
+
+        await expect(manager.getValidAccessToken()).resolves.toBe('old');
+        expect(refreshToken).toHaveBeenCalledTimes(4);
+        expect(storage.hasProfile('main')).toBe(true);
+    });
+
+    it('should retry transient failures before succeeding', async () => {
+        storeTokens(-1000);
+        refreshToken
+            .mockRejectedValueOnce(new Error('socket hang up'))
+            .mockResolvedValueOnce({ access_token: 'new', refresh_token: 'refresh-2', expires_in: 3600 });
+
+        await expect(manager.getValidAccessToken()).resolves.toBe('new');
+        expect(refreshToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear credentials only on invalid_grant', async () => {
+        storeTokens(-1000);
+        refreshToken.mockRejectedValue(new EtsyAuthExpiredError('revoked', { method: 'POST', endpoint: '/public/oauth/token', status: 400, etsyError: 'invalid_grant' }));
+
+        await expect(manager.getValidAccessToken()).resolves.toBeNull();
+        expect(refreshToken).toHaveBeenCalledTimes(1);
+        expect(storage.hasProfile('main')).toBe(false);
+    });
+
+    it('should keep credentials when an expired token cannot be refreshed for other reasons', async () => {
+        storeTokens(-1000);
+        refreshToken.mockRejectedValue(new EtsyApiError('bad client', { method: 'POST', endpoint: '/public/oauth/token', status: 401, etsyError: 'invalid_client' }));
+
+        await expect(manager.getValidAccessToken()).rejects.toThrow('bad client');
+        expect(storage.hasProfile('main')).toBe(true);
+    });
+});
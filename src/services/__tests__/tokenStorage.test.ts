@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenStorage } from '../tokenStorage.js';
+import { runWithContext } from '../requestContext.js';
+
+describe('TokenStorage profiles', () => {
+    const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'etsy-mcp-tokens-'));
+    const tokenFile = path.join(storageDir, 'tokens.json');
+    let storage: TokenStorage;
+
+    beforeAll(() => {
+        process.env.ETSY_MCP_TOKEN_PATH = storageDir;
+        storage = TokenStorage.getInstance();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    beforeEach(() => {
+        fs.rmSync(tokenFile, { force: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('should migrate a single-account tokens.json into the default profile', () => {
+        fs.writeFileSync(tokenFile, JSON.stringify({ access_token: '1.a', refresh_token: 'r', expires_at: Date.now() + 60_000, user_id: 1, shop_id: 10, shop_name: 'Main' }));
+
+        expect(storage.getTokens()?.shop_id).toBe(10);
+        expect(storage.getActiveProfile()).toBe('default');
+        expect(JSON.parse(fs.readFileSync(tokenFile, 'utf8')).profiles.default.access_token).toBe('1.a');
+    });
+
+    it('should keep tokens and default shops separate per profile', () => {
+        storage.saveTokens({ access_token: '1.a', user_id: 1, expires_in: 3600 }, 'main');
+        storage.saveTokens({ access_token: '2.b', user_id: 2, expires_in: 3600 }, 'wholesale');
+        storage.setActiveProfile('main');
+        storage.setDefaultShop(20, 'Wholesale', 'wholesale');
+
+        expect(storage.getTokens()?.access_token).toBe('1.a');
+        expect(storage.getTokens('wholesale')?.shop_id).toBe(20);
+        expect(storage.getTokens('main')?.shop_id).toBeUndefined();
+    });
+
+    it('should use the profile of the current request context', () => {
+        storage.saveTokens({ access_token: '1.a', expires_in: 3600 }, 'main');
+        storage.saveTokens({ access_token: '2.b', expires_in: 3600 }, 'wholesale');
+        storage.setActiveProfile('main');
+
+        const token = runWithContext({ profile: 'wholesale' }, () => storage.getTokens()?.access_token);
+
+        expect(token).toBe('2.b');
+    });
+
+    it('should fall back to another profile when the active one is removed', () => {
+        storage.saveTokens({ access_token: '1.a', expires_in: 3600 }, 'main');
+        storage.saveTokens({ access_token: '2.b', expires_in: 3600 }, 'wholesale');
+        storage.setActiveProfile('wholesale');
+
+        storage.removeProfile('wholesale');
+
+        expect(storage.getActiveProfile()).toBe('main');
+        expect(storage.listProfiles().map(profile => profile.name)).toEqual(['main']);
+    });
+
+    it('should reject switching to a profile that does not exist', () => {
+        expect(() => storage.setActiveProfile('missing')).toThrow('does not exist');
+    });
+});
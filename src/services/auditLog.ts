@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getStorageDirectory } from './tokenStorage.js';
+import { logger } from '../utils/logger.js';
+
+export const AUDIT_LOG_FILE = 'audit.jsonl';
+const READ_CHUNK_BYTES = 64 * 1024;
+
+// One mutating request sent to Etsy
+export interface AuditEntry {
+    id: string;
+    timestamp: string;
+    // Matches the correlation_id of the log entries written for the same tool call
+    correlation_id?: string;
+    tool?: string;
+    profile: string;
+    shop_id?: number;
+    listing_id?: number;
+    method: string;
+    endpoint: string;
+    payload: unknown;
+    status: 'succeeded' | 'failed';
+    // IDs found in Etsy's response, e.g. { listing_id: 123 } for a created listing
+    response_ids?: Record<string, number>;
+    error?: string;
+    // The resource as it was before the request, where it can be fetched (see snapshotEndpointFor)
+    prior_state?: unknown;
+}
+
+export interface AuditQuery {
+    limit?: number;
+    listingId?: number;
+    tool?: string;
+}
+
+const RESPONSE_ID_FIELDS = ['listing_id', 'listing_image_id', 'shipping_profile_id', 'receipt_id', 'receipt_shipping_id'];
+
+const LISTING_UPDATE = /^\/application\/shops\/(\d+)\/listings\/(\d+)$/;
+const LISTING = /^\/application\/listings\/(\d+)$/;
+const LISTING_INVENTORY = /^\/application\/listings\/(\d+)\/inventory$/;
+
+// The GET endpoint that returns what a mutating request is about to change, or null when
+// there is nothing to snapshot (e.g. creating a listing)
+export function snapshotEndpointFor(method: string, endpoint: string): string | null {
+    const update = LISTING_UPDATE.exec(endpoint);
+    if (update && (method === 'PATCH' || method === 'PUT')) {
+        return `/application/listings/${update[2]}`;
+    }
+    if (LISTING.test(endpoint) && method === 'DELETE') {
+        return endpoint;
+    }
+    if (LISTING_INVENTORY.test(endpoint) && method === 'PUT') {
+        return endpoint;
+    }
+    return null;
+}
+
+// How undo_change can revert an entry, if at all
+export function undoKindOf(entry: AuditEntry): 'listing' | 'inventory' | null {
+    if (LISTING_UPDATE.test(entry.endpoint) && (entry.method === 'PATCH' || entry.method === 'PUT')) {
+        return 'listing';
+    }
+    if (LISTING_INVENTORY.test(entry.endpoint) && entry.method === 'PUT') {
+        return 'inventory';
+    }
+    return null;
+}
+
+// updateListing only moves listings between these states, so e.g. a published draft stays published
+const RESTORABLE_STATES = ['active', 'inactive'];
+
+// Whether a value from the GET snapshot can be sent back in an updateListing PATCH
+function isRestorableValue(field: string, value: unknown): boolean {
+    if (field === 'state') {
+        return typeof value === 'string' && RESTORABLE_STATES.includes(value);
+    }
+    // The GET response has Money objects where the PATCH takes plain numbers
+    return !(value && typeof value === 'object' && 'amount' in value && 'divisor' in value);
+}
+
+// The snapshot values of the fields a listing update changed. Fields the snapshot does not
+// contain, or whose values updateListing does not accept, cannot be restored and are reported separately.
+export function listingRestoreFields(entry: AuditEntry): { fields: Record<string, unknown>; unrestorable: string[] } {
+    const prior = (entry.prior_state ?? {}) as Record<string, unknown>;
+    const fields: Record<string, unknown> = {};
+    const unrestorable: string[] = [];
+    Object.keys((entry.payload ?? {}) as Record<string, unknown>).forEach(field => {
+        if (field in prior && isRestorableValue(field, prior[field])) {
+            fields[field] = prior[field];
+        } else {
+            unrestorable.push(field);
+        }
+    });
+    return { fields, unrestorable };
+}
+
+// Lines of a file from last to first, read backwards in chunks so that only the tail is loaded
+function* linesFromEnd(filePath: string): Generator<string> {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        let position = fs.fstatSync(fd).size;
+        // Bytes of a line that starts before the chunk read last
+        let partial = Buffer.alloc(0);
+        while (position > 0) {
+            const length = Math.min(READ_CHUNK_BYTES, position);
+            position -= length;
+            const chunk = Buffer.alloc(length);
+            fs.readSync(fd, chunk, 0, length, position);
+            const buffer = Buffer.concat([chunk, partial]);
+            let end = buffer.length;
+            for (let index = buffer.length - 1; index >= 0; index--) {
+                if (buffer[index] === 0x0a) {
+                    yield buffer.toString('utf8', index + 1, end);
+                    end = index;
+                }
+            }
+            partial = buffer.subarray(0, end);
+        }
+        yield partial.toString('utf8');
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+function numericMatch(pattern: RegExp, value: string): number | undefined {
+    const match = pattern.exec(value);
+    return match ? Number(match[1]) : undefined;
+}
+
+function responseIdsOf(data: unknown): Record<string, number> | undefined {
+    if (!data || typeof data !== 'object') {
+        return undefined;
+    }
+    const ids: Record<string, number> = {};
+    RESPONSE_ID_FIELDS.forEach(field => {
+        const value = (data as Record<string, unknown>)[field];
+        if (typeof value === 'number') {
+            ids[field] = value;
+        }
+    });
+    return Object.keys(ids).length > 0 ? ids : undefined;
+}
+
+// Append-only JSONL record of every mutating request. Writing never fails the request itself:
+// when the file cannot be written, entries are kept in memory for the rest of the process.
+// The file is rotated when it exceeds ETSY_MCP_AUDIT_LOG_MAX_SIZE_MB (default 10), keeping the newest
+// ETSY_MCP_AUDIT_LOG_MAX_FILES (default 10) rotated files, which list() and find() read as well.
+export class AuditLog {
+    private unwritten: AuditEntry[] = [];
+
+    constructor(private readonly filePathOverride?: string) {}
+
+    // Resolved on every use so ETSY_MCP_AUDIT_LOG_PATH and ETSY_MCP_TOKEN_PATH can change in tests
+    get filePath(): string {
+        return this.filePathOverride ?? (process.env.ETSY_MCP_AUDIT_LOG_PATH || path.join(getStorageDirectory(), AUDIT_LOG_FILE));
+    }
+
+    record(details: {
+        correlationId?: string;
+        tool?: string;
+        profile: string;
+        method: string;
+        endpoint: string;
+        payload: unknown;
+        priorState?: unknown;
+        response?: unknown;
+        error?: unknown;
+    }): AuditEntry {
+        const endpointPath = details.endpoint.split('?')[0];
+        const prior = details.priorState as Record<string, any> | undefined;
+        const response = details.response as Record<string, any> | undefined;
+        const entry: AuditEntry = {
+            id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+            timestamp: new Date().toISOString(),
+            correlation_id: details.correlationId,
+            tool: details.tool,
+            profile: details.profile,
+            shop_id: numericMatch(/\/shops\/(\d+)/, endpointPath) ?? prior?.shop_id ?? response?.shop_id,
+            listing_id: numericMatch(/\/listings\/(\d+)/, endpointPath) ?? response?.listing_id,
+            method: details.method,
+            endpoint: details.endpoint,
+            payload: details.payload ?? null,
+            status: details.error === undefined ? 'succeeded' : 'failed',
+            response_ids: details.error === undefined ? responseIdsOf(details.response) : undefined,
+            error: details.error === undefined ? undefined : (details.error instanceof Error ? details.error.message : String(details.error)),
+            prior_state: details.priorState
+        };
+        this.append(entry);
+        return entry;
+    }
+
+    // Newest first; stops reading once `limit` matching entries are found
+    list(query: AuditQuery = {}): AuditEntry[] {
+        const limit = query.limit ?? 20;
+        const entries: AuditEntry[] = [];
+        for (const entry of this.newestFirst()) {
+            if (entries.length >= limit) {
+                break;
+            }
+            if ((query.listingId === undefined || entry.listing_id === query.listingId) && (query.tool === undefined || entry.tool === query.tool)) {
+                entries.push(entry);
+            }
+        }
+        return entries;
+    }
+
+    find(id: string): AuditEntry | undefined {
+        for (const entry of this.newestFirst()) {
+            if (entry.id === id) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    private get maxBytes(): number {
+        return (Number(process.env.ETSY_MCP_AUDIT_LOG_MAX_SIZE_MB) || 10) * 1024 * 1024;
+    }
+
+    private get maxFiles(): number {
+        return Number(process.env.ETSY_MCP_AUDIT_LOG_MAX_FILES) || 10;
+    }
+
+    private append(entry: AuditEntry): void {
+        const line = `${JSON.stringify(entry)}\n`;
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            if (fs.existsSync(this.filePath) && fs.statSync(this.filePath).size + Buffer.byteLength(line) > this.maxBytes) {
+                this.rotate();
+            }
+            fs.appendFileSync(this.filePath, line, { mode: 0o600, encoding: 'utf8' });
+        } catch (error) {
+            logger.error(`[AuditLog] Could not write ${this.filePath}; keeping the entry in memory only.`, error);
+            this.unwritten.push(entry);
+        }
+    }
+
+    // audit.jsonl becomes audit-<timestamp>.jsonl; rotated files beyond maxFiles are deleted
+    private rotate(): void {
+        const { dir, name, ext } = path.parse(this.filePath);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        fs.renameSync(this.filePath, path.join(dir, `${name}-${timestamp}${ext}`));
+        this.rotatedFiles().slice(this.maxFiles).forEach(file => fs.rmSync(file, { force: true }));
+    }
+
+    // Newest first; the timestamps in the names sort chronologically
+    private rotatedFiles(): string[] {
+        const { dir, name, ext } = path.parse(this.filePath);
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+        return fs.readdirSync(dir)
+            .filter(file => file.startsWith(`${name}-`) && file.endsWith(ext))
+            .sort()
+            .reverse()
+            .map(file => path.join(dir, file));
+    }
+
+    private *fileEntries(): Generator<AuditEntry> {
+        const files = [this.filePath, ...this.rotatedFiles()].filter(file => fs.existsSync(file));
+        for (const file of files) {
+            for (const line of linesFromEnd(file)) {
+                if (!line.trim()) {
+                    continue;
+                }
+                try {
+                    yield JSON.parse(line);
+                } catch {
+                    logger.info(`[AuditLog] Skipping a malformed line in ${file}`);
+                }
+            }
+        }
+    }
+
+    // File entries merged with the ones that could not be written, newest first
+    private *newestFirst(): Generator<AuditEntry> {
+        const pending = [...this.unwritten].reverse();
+        for (const entry of this.fileEntries()) {
+            while (pending.length > 0 && pending[0].timestamp > entry.timestamp) {
+                yield pending.shift()!;
+            }
+            yield entry;
+        }
+        yield* pending;
+    }
+}
+
+export const auditLog = new AuditLog();
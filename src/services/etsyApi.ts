@@ -5,29 +5,46 @@ import { config } from 'dotenv';
 import FormData from 'form-data';
 import { logger } from '../utils/logger.js';
 import fs from 'fs';
+import { z } from 'zod';
+import { EtsyNotFoundError, EtsySchemaDriftError, createEtsyApiError } from './etsyApiError.js';
+import {
+    LedgerEntry, Listing, ListingImage, ListingInventory, OAuthTokenResponse, Payment, Receipt, Review,
+    SellerTaxonomyNode, ShippingProfile, Shop, TaxonomyProperty, Transaction,
+    ledgerEntrySchema, listingImageSchema, listingInventorySchema, listingSchema, oauthTokenResponseSchema,
+    paginatedSchema, paymentSchema, receiptSchema, reviewSchema, sellerTaxonomyNodeSchema, shippingProfileSchema,
+    shopSchema, taxonomyPropertySchema, transactionSchema
+} from './etsyModels.js';
+import { ResponseCache } from './responseCache.js';
+import { RateLimiter, RateLimitStatus, backoffDelay, parseRetryAfter, sleep } from './rateLimiter.js';
+import { getRequestContext } from './requestContext.js';
+import { auditLog, snapshotEndpointFor } from './auditLog.js';
+import { TokenStorage } from './tokenStorage.js';
 
 dotenv.config();
 
-interface ListingData {
-    title: string;
-    description: string;
-    price: number;
-    quantity: number;
-    who_made: string;
-    when_made: string;
-    taxonomy_id: number;
-    type: string;
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface PaginatedResponse<T> {
+    count: number;
+    results: T[];
 }
 
-interface OAuthTokenResponse {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-    token_type: string;
-    scope: string;
-    user_id?: number;
+export interface ReceiptFilters {
+    min_created?: number;
+    max_created?: number;
+    min_last_modified?: number;
+    max_last_modified?: number;
+    was_paid?: boolean;
+    was_shipped?: boolean;
+    was_delivered?: boolean;
+    was_canceled?: boolean;
+    sort_on?: 'created' | 'updated' | 'receipt_id';
+    sort_order?: 'asc' | 'desc';
 }
 
+// Etsy caps `limit` at 100 for paginated collection endpoints
+const PAGE_SIZE = 100;
+
 export class EtsyApiClient {
     private baseURL: string;
     private apiKey: string;
@@ -35,11 +52,16 @@ export class EtsyApiClient {
     private redirectUri: string;
     private codeVerifier: string | null = null;
     private accessToken: string | null = null;
+    private rateLimiter = new RateLimiter();
+    private responseCache = ResponseCache.fromEnvironment();
+    private maxRetries: number;
 
     constructor(port: number = 3003) {
         this.baseURL = 'https://api.etsy.com/v3';
         this.apiKey = process.env.ETSY_API_KEY || '';
         this.clientSecret = process.env.ETSY_CLIENT_SECRET || '';
+        const configuredRetries = parseInt(process.env.ETSY_MAX_RETRIES || '', 10);
+        this.maxRetries = configuredRetries >= 0 ? configuredRetries : 4;
         
         // Get host from environment or use localhost
         const host = process.env.ETSY_MCP_HOST || 'localhost';
@@ -70,15 +92,13 @@ export class EtsyApiClient {
         return { codeVerifier: localCodeVerifier, codeChallenge };
     }
 
-    // Get the OAuth authorization URL - takes state and challenge as args
-    getAuthorizationUrl(state: string, codeChallenge: string): string {
-        const scopes = 'listings_r listings_w shops_r shops_w'; // Consider making scopes configurable
-        
+    // Get the OAuth authorization URL - takes state, challenge and the scopes to request
+    getAuthorizationUrl(state: string, codeChallenge: string, scopes: string[]): string {
         const params = new URLSearchParams({
             response_type: 'code',
             client_id: this.apiKey,
             redirect_uri: this.redirectUri,
-            scope: scopes,
+            scope: scopes.join(' '),
             state: state, // Use provided state
             code_challenge: codeChallenge, // Use provided challenge
             code_challenge_method: 'S256'
@@ -121,28 +141,30 @@ export class EtsyApiClient {
                 }
             );
 
+            const tokenData = this.parseModel(oauthTokenResponseSchema, response.data, 'POST', '/public/oauth/token');
+
             // Store the received access token internally
-            this.accessToken = response.data.access_token;
+            this.accessToken = tokenData.access_token;
 
             // Parse user_id from the access_token string (e.g., "12345.actualtoken")
             let userIdFromToken: number | undefined = undefined;
-            if (response.data.access_token) {
-                const parts = response.data.access_token.split('.');
+            if (tokenData.access_token) {
+                const parts = tokenData.access_token.split('.');
                 if (parts.length > 0 && !isNaN(parseInt(parts[0], 10))) {
                     userIdFromToken = parseInt(parts[0], 10);
                 }
             }
             
             return {
-                ...response.data,
+                ...tokenData,
                 user_id: userIdFromToken // Add parsed user_id to the response object
             };
         } catch (error) {
             if (axios.isAxiosError(error)) {
-                console.error('Token exchange error response:', error.response?.data);
+                logger.error('[EtsyApiClient] Token exchange failed', error);
                 throw new Error(`Failed to get access token from code: ${error.response?.data?.error_description || error.response?.data?.error || error.message}`);
             }
-            console.error('Token exchange unexpected error:', error);
+            logger.error('[EtsyApiClient] Token exchange failed', error);
             throw error;
         }
     }
@@ -155,6 +177,7 @@ export class EtsyApiClient {
             refresh_token: refreshToken
         });
 
+        let responseData: unknown;
         try {
             const response = await axios.post(
                 'https://api.etsy.com/v3/public/oauth/token',
@@ -165,53 +188,301 @@ export class EtsyApiClient {
                     }
                 }
             );
-
-            this.accessToken = response.data.access_token;
-            return response.data;
+            responseData = response.data;
         } catch (error: any) {
             const errorMessage = error.response?.data?.error || error.message;
-            console.error('Error refreshing token:', {
-                status: error.response?.status,
-                data: error.response?.data,
-                message: errorMessage
-            });
+            logger.error('[EtsyApiClient] Token refresh failed', error);
+            // Keep Etsy's error code (e.g. invalid_grant) so callers can tell a revoked grant from an outage
+            if (axios.isAxiosError(error)) {
+                throw createEtsyApiError(error, 'POST', '/public/oauth/token');
+            }
             throw new Error(`Failed to refresh token: ${errorMessage}`);
         }
+
+        const tokenData = this.parseModel(oauthTokenResponseSchema, responseData, 'POST', '/public/oauth/token');
+        this.accessToken = tokenData.access_token;
+        return tokenData;
     }
 
-    // Make authenticated API request
-    private async makeRequest<T>(endpoint: string, method: 'GET' | 'POST' = 'GET', data: any = null, accessToken?: string): Promise<T> {
-        const headers = this.getHeaders(accessToken);
-        
+    // Make authenticated API request through the rate limiter.
+    // 429s are always retried; 5xx and network errors only for idempotent methods, since a
+    // retried POST could create a duplicate listing or shipment.
+    private async makeRequest<T>(endpoint: string, method: HttpMethod = 'GET', data: any = null, accessToken?: string): Promise<T> {
+        if (this.recordDryRun(method, endpoint, data)) {
+            return {} as T;
+        }
+        if (method !== 'GET') {
+            return this.audited(method, endpoint, data, accessToken, () => this.sendRequest<T>(endpoint, method, data, accessToken));
+        }
+        return this.sendRequest<T>(endpoint, method, data, accessToken);
+    }
+
+    // Sends a mutating request and records it in the audit log, together with a snapshot of the
+    // resource it changes so undo_change can restore it
+    private async audited<T>(method: HttpMethod, endpoint: string, payload: unknown, accessToken: string | undefined, send: () => Promise<T>): Promise<T> {
+        const context = getRequestContext();
+        const details = {
+            correlationId: context.correlationId,
+            tool: context.tool,
+            profile: TokenStorage.getInstance().resolveProfile(context.profile),
+            method,
+            endpoint,
+            payload,
+            priorState: await this.fetchPriorState(method, endpoint, accessToken)
+        };
         try {
-            const response = await axios({
-                method,
-                url: `${this.baseURL}${endpoint}`,
-                headers,
-                data
-            });
-            
-            return response.data;
+            const response = await send();
+            auditLog.record({ ...details, response });
+            return response;
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                throw new Error(`API request failed: ${error.response?.data?.error || error.message}`);
-            }
+            auditLog.record({ ...details, error });
             throw error;
         }
     }
 
+    private async fetchPriorState(method: HttpMethod, endpoint: string, accessToken?: string): Promise<unknown> {
+        const snapshotEndpoint = snapshotEndpointFor(method, endpoint);
+        if (!snapshotEndpoint) {
+            return undefined;
+        }
+        try {
+            // Bypass the response cache: the snapshot must be the state the change overwrites
+            this.responseCache.invalidateForMutation(snapshotEndpoint);
+            return await this.sendRequest<unknown>(snapshotEndpoint, 'GET', null, accessToken);
+        } catch (error) {
+            logger.error(`[EtsyApiClient] Could not snapshot ${snapshotEndpoint} before ${method} ${endpoint}`, error);
+            return undefined;
+        }
+    }
+
+    private async sendRequest<T>(endpoint: string, method: HttpMethod, data: any, accessToken?: string): Promise<T> {
+        const headers = this.getHeaders(accessToken);
+
+        // GETs are answered from the response cache while fresh, and revalidated with If-None-Match once stale
+        const cacheKey = method === 'GET' ? this.responseCache.keyFor(endpoint, accessToken) : null;
+        const cached = cacheKey ? this.responseCache.lookup(cacheKey) : undefined;
+        if (cached?.fresh) {
+            logger.debug(`[EtsyApiClient] ${method} ${endpoint} served from cache`);
+            return ResponseCache.dataOf<T>(cached.entry);
+        }
+        if (cached?.entry.etag) {
+            headers['If-None-Match'] = cached.entry.etag;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            await this.rateLimiter.acquire(method, endpoint);
+            const startedAt = Date.now();
+            try {
+                const response = await axios({
+                    method,
+                    url: `${this.baseURL}${endpoint}`,
+                    headers,
+                    data,
+                    validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached)
+                });
+                this.rateLimiter.updateFromHeaders(response.headers);
+                logger.debug(`[EtsyApiClient] ${method} ${endpoint} -> ${response.status} in ${Date.now() - startedAt}ms`);
+
+                if (cacheKey) {
+                    if (response.status === 304 && cached) {
+                        this.responseCache.revalidated(cacheKey, endpoint);
+                        return ResponseCache.dataOf<T>(cached.entry);
+                    }
+                    this.responseCache.save(cacheKey, endpoint, response.data, response.headers['etag']);
+                } else {
+                    this.responseCache.invalidateForMutation(endpoint);
+                }
+
+                return response.data;
+            } catch (error) {
+                if (!axios.isAxiosError(error)) {
+                    throw error;
+                }
+                this.rateLimiter.updateFromHeaders(error.response?.headers);
+                logger.debug(`[EtsyApiClient] ${method} ${endpoint} -> ${error.response?.status ?? error.code} in ${Date.now() - startedAt}ms`);
+
+                const status = error.response?.status;
+                const retryable = status === 429 || (method !== 'POST' && (status === undefined || status >= 500));
+                if (!retryable || attempt >= this.maxRetries) {
+                    throw createEtsyApiError(error, method, endpoint);
+                }
+
+                const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+                const delayMs = retryAfterMs ?? backoffDelay(attempt);
+                if (status === 429) {
+                    this.rateLimiter.recordRateLimited(delayMs);
+                }
+                this.rateLimiter.recordRetry();
+                logger.warn(`[EtsyApiClient] ${method} ${endpoint} failed with ${status ?? error.code}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    // Records a mutating request instead of sending it when the current call is a dry run
+    private recordDryRun(method: HttpMethod, endpoint: string, payload: unknown): boolean {
+        const dryRun = getRequestContext().dryRun;
+        if (!dryRun || method === 'GET') {
+            return false;
+        }
+        // Copied, so later changes by the caller do not alter what the preview shows
+        dryRun.requests.push({ method, endpoint, payload: payload === null || payload === undefined ? null : structuredClone(payload) });
+        logger.debug(`[EtsyApiClient] Dry run: ${method} ${endpoint} not sent`);
+        return true;
+    }
+
+    getRateLimitStatus(): RateLimitStatus {
+        return this.rateLimiter.getStatus();
+    }
+
+    getResponseCache(): ResponseCache {
+        return this.responseCache;
+    }
+
+    // Builds a query string from the defined params only
+    private buildQuery(params: Record<string, string | number | boolean | undefined>): string {
+        const query = new URLSearchParams();
+        Object.entries(params).forEach(([key, value]) => {
+            if (value !== undefined) {
+                query.append(key, String(value));
+            }
+        });
+        const queryString = query.toString();
+        return queryString ? `?${queryString}` : '';
+    }
+
+    // Follows Etsy's limit/offset pagination until all results (or maxResults) are collected
+    private async fetchAllPages<T>(endpoint: string, params: Record<string, string | number | boolean | undefined>, accessToken: string, maxResults: number = Infinity): Promise<PaginatedResponse<T>> {
+        const results: T[] = [];
+        let offset = 0;
+        let count = 0;
+
+        while (results.length < maxResults) {
+            const limit = Math.min(PAGE_SIZE, maxResults - results.length);
+            const page = await this.makeRequest<PaginatedResponse<T>>(`${endpoint}${this.buildQuery({ ...params, limit, offset })}`, 'GET', null, accessToken);
+            count = page.count;
+            results.push(...page.results);
+            offset += page.results.length;
+            if (page.results.length < limit || offset >= count) {
+                break;
+            }
+        }
+
+        return { count, results };
+    }
+
+    // Checks a response against its model so schema drift surfaces as a clear error
+    // instead of undefined fields further down
+    private parseModel<S extends z.ZodTypeAny>(schema: S, data: unknown, method: HttpMethod, endpoint: string): z.infer<S> {
+        const parsed = schema.safeParse(data);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+            logger.error(`[EtsyApiClient] Response from ${method} ${endpoint} does not match the expected model`, issues);
+            throw new EtsySchemaDriftError(method, endpoint, issues);
+        }
+        return parsed.data;
+    }
+
+    private async requestModel<S extends z.ZodTypeAny>(schema: S, endpoint: string, method: HttpMethod, data: any, accessToken?: string): Promise<z.infer<S>> {
+        const response = await this.makeRequest<unknown>(endpoint, method, data, accessToken);
+        if (method !== 'GET' && getRequestContext().dryRun) {
+            return response; // Empty placeholder; nothing was sent, so there is no model to check
+        }
+        return this.parseModel(schema, response, method, endpoint);
+    }
+
+    private async fetchAllModels<S extends z.ZodTypeAny>(schema: S, endpoint: string, params: Record<string, string | number | boolean | undefined>, accessToken: string, maxResults?: number): Promise<PaginatedResponse<z.infer<S>>> {
+        const page = await this.fetchAllPages<unknown>(endpoint, params, accessToken, maxResults);
+        return this.parseModel(paginatedSchema(schema), page, 'GET', endpoint);
+    }
+
     // Shop endpoints
-    async getShopDetails(shopId: string, accessToken: string) {
-        return this.makeRequest(`/application/shops/${shopId}`, 'GET', null, accessToken);
+    async getShopDetails(shopId: string, accessToken: string): Promise<Shop> {
+        return this.requestModel(shopSchema, `/application/shops/${shopId}`, 'GET', null, accessToken);
     }
 
     // Listing endpoints
-    async getListings(shopId: string, accessToken: string) {
-        return this.makeRequest(`/application/shops/${shopId}/listings/active`, 'GET', null, accessToken);
+    async getListings(shopId: string, accessToken: string): Promise<PaginatedResponse<Listing>> {
+        return this.requestModel(paginatedSchema(listingSchema), `/application/shops/${shopId}/listings/active`, 'GET', null, accessToken);
     }
 
-    async createListing(shopId: string, listingData: any, accessToken: string) {
-        return this.makeRequest(`/application/shops/${shopId}/listings`, 'POST', listingData, accessToken);
+    // All listings of a shop in one state, with optional associations (Images, Inventory, Shipping, ...)
+    async getShopListingsByState(shopId: string, state: string, accessToken: string, includes: string[] = [], maxResults?: number): Promise<PaginatedResponse<Listing>> {
+        const includesParam = includes.length > 0 ? includes.join(',') : undefined;
+        return this.fetchAllModels(listingSchema, `/application/shops/${shopId}/listings`, { state, includes: includesParam }, accessToken, maxResults);
+    }
+
+    async createListing(shopId: string, listingData: any, accessToken: string): Promise<Listing> {
+        return this.requestModel(listingSchema, `/application/shops/${shopId}/listings`, 'POST', listingData, accessToken);
+    }
+
+    async getListing(listingId: string, accessToken: string, includes: string[] = []): Promise<Listing> {
+        const query = includes.length > 0 ? `?includes=${encodeURIComponent(includes.join(','))}` : '';
+        return this.requestModel(listingSchema, `/application/listings/${listingId}${query}`, 'GET', null, accessToken);
+    }
+
+    // Partial update; only the fields present in listingData are changed
+    async updateListing(shopId: string, listingId: string, listingData: any, accessToken: string): Promise<Listing> {
+        return this.requestModel(listingSchema, `/application/shops/${shopId}/listings/${listingId}`, 'PATCH', listingData, accessToken);
+    }
+
+    async deleteListing(listingId: string, accessToken: string): Promise<any> {
+        return this.makeRequest(`/application/listings/${listingId}`, 'DELETE', null, accessToken);
+    }
+
+    // Price and quantity live on the listing inventory, not on the listing itself
+    async getListingInventory(listingId: string, accessToken: string): Promise<ListingInventory> {
+        return this.requestModel(listingInventorySchema, `/application/listings/${listingId}/inventory`, 'GET', null, accessToken);
+    }
+
+    async updateListingInventory(listingId: string, inventoryData: any, accessToken: string): Promise<ListingInventory> {
+        return this.requestModel(listingInventorySchema, `/application/listings/${listingId}/inventory`, 'PUT', inventoryData, accessToken);
+    }
+
+    // Receipt (order) endpoints
+    async getShopReceipts(shopId: string, filters: ReceiptFilters, accessToken: string, maxResults?: number): Promise<PaginatedResponse<Receipt>> {
+        return this.fetchAllModels(receiptSchema, `/application/shops/${shopId}/receipts`, { ...filters }, accessToken, maxResults);
+    }
+
+    async getShopReceipt(shopId: string, receiptId: string, accessToken: string): Promise<Receipt> {
+        return this.requestModel(receiptSchema, `/application/shops/${shopId}/receipts/${receiptId}`, 'GET', null, accessToken);
+    }
+
+    async getShopReceiptTransactions(shopId: string, receiptId: string, accessToken: string): Promise<PaginatedResponse<Transaction>> {
+        return this.requestModel(paginatedSchema(transactionSchema), `/application/shops/${shopId}/receipts/${receiptId}/transactions`, 'GET', null, accessToken);
+    }
+
+    // Marks a receipt as shipped and attaches carrier tracking information
+    async createReceiptShipment(shopId: string, receiptId: string, shipmentData: any, accessToken: string): Promise<Receipt> {
+        return this.requestModel(receiptSchema, `/application/shops/${shopId}/receipts/${receiptId}/tracking`, 'POST', shipmentData, accessToken);
+    }
+
+    // Payment account endpoints; Etsy requires both ends of the created date range
+    async getPaymentAccountLedgerEntries(shopId: string, minCreated: number, maxCreated: number, accessToken: string): Promise<PaginatedResponse<LedgerEntry>> {
+        return this.fetchAllModels(ledgerEntrySchema, `/application/shops/${shopId}/payment-account/ledger-entries`, { min_created: minCreated, max_created: maxCreated }, accessToken);
+    }
+
+    async getPayments(shopId: string, paymentIds: number[], accessToken: string): Promise<PaginatedResponse<Payment>> {
+        const query = this.buildQuery({ payment_ids: paymentIds.join(',') });
+        return this.requestModel(paginatedSchema(paymentSchema), `/application/shops/${shopId}/payments${query}`, 'GET', null, accessToken);
+    }
+
+    // Review endpoints; min_created/max_created are epoch seconds
+    async getShopReviews(shopId: string, range: { min_created?: number; max_created?: number }, accessToken: string, maxResults?: number): Promise<PaginatedResponse<Review>> {
+        return this.fetchAllModels(reviewSchema, `/application/shops/${shopId}/reviews`, { ...range }, accessToken, maxResults);
+    }
+
+    async getListingReviews(listingId: string, range: { min_created?: number; max_created?: number }, accessToken: string, maxResults?: number): Promise<PaginatedResponse<Review>> {
+        return this.fetchAllModels(reviewSchema, `/application/listings/${listingId}/reviews`, { ...range }, accessToken, maxResults);
+    }
+
+    // Seller taxonomy endpoints only need the API key, not an OAuth token
+    async getSellerTaxonomyNodes(): Promise<PaginatedResponse<SellerTaxonomyNode>> {
+        return this.requestModel(paginatedSchema(sellerTaxonomyNodeSchema), '/application/seller-taxonomy/nodes', 'GET', null);
+    }
+
+    async getSellerTaxonomyNodeProperties(taxonomyId: string): Promise<PaginatedResponse<TaxonomyProperty>> {
+        return this.requestModel(paginatedSchema(taxonomyPropertySchema), `/application/seller-taxonomy/nodes/${taxonomyId}/properties`, 'GET', null);
     }
 
     setAccessToken(token: string) {
@@ -231,48 +502,58 @@ export class EtsyApiClient {
         return headers;
     }
 
-    // Get shops for a user
-    async getUserShops(userId: number, accessToken: string): Promise<any> { // Define a more specific type if shop structure is known
+    // Get shops for a user. Etsy answers with a single shop object today, but a paginated
+    // list is accepted too; either way callers get an array (empty when the user has no shop).
+    async getUserShops(userId: number, accessToken: string): Promise<Shop[]> {
         if (!userId) {
             throw new Error('User ID is required to fetch shops.');
         }
         const endpoint = `/application/users/${userId}/shops`;
-        console.error(`[EtsyApiClient] Calling getUserShops. Endpoint: ${this.baseURL}${endpoint}`); // Log endpoint
+        let response: any;
         try {
-            const response = await this.makeRequest(endpoint, 'GET', null, accessToken);
-            console.error('[EtsyApiClient] Raw response from getUserShops:', JSON.stringify(response, null, 2)); // Log raw response
-            return response;
+            response = await this.makeRequest<unknown>(endpoint, 'GET', null, accessToken);
         } catch (error) {
-            console.error('[EtsyApiClient] Error in getUserShops:', error);
+            if (error instanceof EtsyNotFoundError) {
+                return [];
+            }
             throw error;
         }
+        if (response && Array.isArray(response.results)) {
+            return this.parseModel(paginatedSchema(shopSchema), response, 'GET', endpoint).results;
+        }
+        return [this.parseModel(shopSchema, response, 'GET', endpoint)];
     }
 
     // Get shipping profiles for a shop
-    async getShopShippingProfiles(shopId: string, accessToken: string): Promise<any> {
-        return this.makeRequest(`/application/shops/${shopId}/shipping-profiles`, 'GET', null, accessToken);
+    async getShopShippingProfiles(shopId: string, accessToken: string): Promise<PaginatedResponse<ShippingProfile>> {
+        return this.requestModel(paginatedSchema(shippingProfileSchema), `/application/shops/${shopId}/shipping-profiles`, 'GET', null, accessToken);
     }
 
     // Create a shipping profile for a shop
-    async createShopShippingProfile(shopId: string, profileData: any, accessToken: string): Promise<any> {
-        return this.makeRequest(`/application/shops/${shopId}/shipping-profiles`, 'POST', profileData, accessToken);
+    async createShopShippingProfile(shopId: string, profileData: any, accessToken: string): Promise<ShippingProfile> {
+        return this.requestModel(shippingProfileSchema, `/application/shops/${shopId}/shipping-profiles`, 'POST', profileData, accessToken);
     }
 
     // Upload a listing image from a local file path
-    async uploadListingImageFromFilePath(shopId: string, listingId: string, localImageFilePath: string, imageName: string, accessToken: string): Promise<any> {
+    async uploadListingImageFromFilePath(shopId: string, listingId: string, localImageFilePath: string, imageName: string, accessToken: string): Promise<ListingImage> {
         const endpoint = `/application/shops/${shopId}/listings/${listingId}/images`;
-        logger.log(`[EtsyApiClient] Attempting to upload image from local path: "${localImageFilePath}" to endpoint: ${this.baseURL}${endpoint}`);
+        logger.debug(`[EtsyApiClient] Attempting to upload image from local path: "${localImageFilePath}" to endpoint: ${endpoint}`);
 
         try {
             // 1. Read the image from the local file path
-            logger.log(`[EtsyApiClient] Reading image from ${localImageFilePath}`);
+            logger.debug(`[EtsyApiClient] Reading image from ${localImageFilePath}`);
             if (!fs.existsSync(localImageFilePath)) {
                 const notFoundError = new Error(`Image file not found at path: ${localImageFilePath}`);
                 logger.error(`[EtsyApiClient] Image file not found at path: ${localImageFilePath}`, notFoundError);
                 throw notFoundError;
             }
+            // Dry runs and the audit log describe the upload instead of holding the image bytes
+            const imagePayload = { image: { file_name: imageName, path: localImageFilePath, size_bytes: fs.statSync(localImageFilePath).size } };
+            if (this.recordDryRun('POST', endpoint, imagePayload)) {
+                return {} as ListingImage;
+            }
             const imageBuffer = fs.readFileSync(localImageFilePath);
-            logger.log(`[EtsyApiClient] Image read, size: ${imageBuffer.length} bytes`);
+            logger.debug(`[EtsyApiClient] Image read, size: ${imageBuffer.length} bytes`);
 
             // 2. Create FormData and append the image
             const formData = new FormData();
@@ -285,18 +566,27 @@ export class EtsyApiClient {
                 ...formData.getHeaders(),
             };
             
-            logger.log(`[EtsyApiClient] Uploading image to Etsy...`);
-            const etsyResponse = await axios.post(`${this.baseURL}${endpoint}`, formData, { headers });
-            logger.log('[EtsyApiClient] Image uploaded successfully from local path.', etsyResponse.data);
-            return etsyResponse.data;
+            logger.debug(`[EtsyApiClient] Uploading image to Etsy...`);
+            const responseData = await this.audited('POST', endpoint, imagePayload, accessToken, async () => {
+                await this.rateLimiter.acquire('POST', endpoint);
+                const etsyResponse = await axios.post(`${this.baseURL}${endpoint}`, formData, { headers });
+                this.rateLimiter.updateFromHeaders(etsyResponse.headers);
+                return etsyResponse.data;
+            });
+            this.responseCache.invalidateForMutation(endpoint);
+            logger.info('[EtsyApiClient] Image uploaded successfully from local path.', { listing_image_id: responseData?.listing_image_id });
+            return this.parseModel(listingImageSchema, responseData, 'POST', endpoint);
 
         } catch (error: any) { 
+            this.rateLimiter.updateFromHeaders(error.response?.headers);
+            if (axios.isAxiosError(error)) {
+                logger.error(`[EtsyApiClient] Error in uploadListingImageFromFilePath for file "${localImageFilePath}"`, error);
+                throw createEtsyApiError(error, 'POST', endpoint);
+            }
             const baseErrorMessage = `[EtsyApiClient] Error in uploadListingImageFromFilePath for file "${localImageFilePath}"`;
             const specificErrorMessage = error.response?.data?.error_description || error.response?.data?.error || error.message || String(error);
             const fullMessage = `${baseErrorMessage}: ${specificErrorMessage}`;
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore - Linter struggles with this specific logger.error call arguments
-            logger.error(fullMessage, error); 
+            logger.error(fullMessage, error);
             throw new Error(`Failed to upload image from file "${localImageFilePath}": ${specificErrorMessage}`);
         }
     }
@@ -320,7 +610,7 @@ export const etsyApiLegacy = {
       });
       return response.data;
     } catch (error) {
-      console.error('Error fetching listings:', error);
+      logger.error('Error fetching listings:', error);
       throw error;
     }
   },
@@ -335,7 +625,7 @@ export const etsyApiLegacy = {
       });
       return response.data;
     } catch (error) {
-      console.error('Error fetching shop details:', error);
+      logger.error('Error fetching shop details:', error);
       throw error;
     }
   },
@@ -351,7 +641,7 @@ export const etsyApiLegacy = {
       });
       return response.data;
     } catch (error) {
-      console.error('Error creating listing:', error);
+      logger.error('Error creating listing:', error);
       throw error;
     }
   }
@@ -0,0 +1,180 @@
+import { AxiosError } from 'axios';
+import { parseRetryAfter } from './rateLimiter.js';
+
+export interface EtsyApiErrorDetails {
+    status?: number;
+    method: string;
+    endpoint: string;
+    etsyError?: string;
+    etsyErrorDescription?: string;
+    retryable?: boolean;
+    remediation?: string;
+}
+
+// Base class for failed Etsy API calls; keeps the HTTP status and Etsy's error body
+export class EtsyApiError extends Error {
+    public readonly status?: number;
+    public readonly method: string;
+    public readonly endpoint: string;
+    public readonly etsyError?: string;
+    public readonly etsyErrorDescription?: string;
+    public readonly retryable: boolean;
+    public readonly remediation?: string;
+
+    constructor(message: string, details: EtsyApiErrorDetails) {
+        super(message);
+        this.name = new.target.name;
+        this.status = details.status;
+        this.method = details.method;
+        this.endpoint = details.endpoint;
+        this.etsyError = details.etsyError;
+        this.etsyErrorDescription = details.etsyErrorDescription;
+        this.retryable = details.retryable ?? false;
+        this.remediation = details.remediation;
+    }
+
+    toJSON() {
+        return {
+            type: this.name,
+            message: this.message,
+            status: this.status,
+            method: this.method,
+            endpoint: this.endpoint,
+            etsy_error: this.etsyError,
+            etsy_error_description: this.etsyErrorDescription,
+            retryable: this.retryable,
+            remediation: this.remediation
+        };
+    }
+}
+
+// 401: the access token is missing, expired or revoked
+export class EtsyAuthExpiredError extends EtsyApiError {
+    constructor(message: string, details: EtsyApiErrorDetails) {
+        super(message, { ...details, remediation: 'Run the authenticate tool to sign in to Etsy again.' });
+    }
+}
+
+// 403: the token lacks an OAuth scope the endpoint needs
+export class EtsyInsufficientScopeError extends EtsyApiError {
+    public readonly missingScope?: string;
+
+    constructor(message: string, details: EtsyApiErrorDetails, missingScope?: string) {
+        super(message, {
+            ...details,
+            remediation: missingScope
+                ? `Missing scope ${missingScope}. Run the authenticate tool with scopes ["${missingScope}"] to add it; scopes already granted are kept.`
+                : 'The token is not allowed to perform this action. Check that the shop belongs to the authenticated user and that the required scope was granted, then run authenticate again.'
+        });
+        this.missingScope = missingScope;
+    }
+}
+
+// 404: the shop, listing, receipt, etc. does not exist or is not visible to this user
+export class EtsyNotFoundError extends EtsyApiError {
+    constructor(message: string, details: EtsyApiErrorDetails) {
+        super(message, { ...details, remediation: 'Check the ID. The resource may have been deleted or may belong to another shop.' });
+    }
+}
+
+// 400/409/422: Etsy rejected the request body or parameters
+export class EtsyValidationError extends EtsyApiError {
+    constructor(message: string, details: EtsyApiErrorDetails) {
+        super(message, { ...details, remediation: 'Fix the fields named in the error description and try again. Do not retry unchanged.' });
+    }
+}
+
+// 429: per-second or daily quota exceeded
+export class EtsyRateLimitedError extends EtsyApiError {
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, details: EtsyApiErrorDetails, retryAfterMs?: number) {
+        super(message, {
+            ...details,
+            retryable: true,
+            remediation: details.remediation
+                ?? `Etsy rate limit reached. Wait${retryAfterMs ? ` ${Math.ceil(retryAfterMs / 1000)} seconds` : ''} before retrying, and check get_rate_limit_status for the remaining quota.`
+        });
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    toJSON() {
+        return { ...super.toJSON(), retry_after_ms: this.retryAfterMs };
+    }
+}
+
+// Etsy reported no remaining daily quota; it resets at the next UTC midnight
+export class EtsyQuotaExhaustedError extends EtsyRateLimitedError {
+    public readonly resetsAt: Date;
+
+    constructor(details: EtsyApiErrorDetails, resetsAt: Date) {
+        super(`Etsy daily API quota is exhausted; it resets at ${resetsAt.toISOString()}.`, {
+            ...details,
+            remediation: `No requests can be made until the daily quota resets at ${resetsAt.toISOString()}. Answer from data already fetched, or retry after the reset.`
+        }, Math.max(0, resetsAt.getTime() - Date.now()));
+        this.resetsAt = resetsAt;
+    }
+
+    toJSON() {
+        return { ...super.toJSON(), resets_at: this.resetsAt.toISOString() };
+    }
+}
+
+// 2xx response whose body does not match the model this server expects
+export class EtsySchemaDriftError extends EtsyApiError {
+    public readonly issues: string[];
+
+    constructor(method: string, endpoint: string, issues: string[]) {
+        super(`Unexpected response from ${method} ${endpoint}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`, {
+            method,
+            endpoint,
+            remediation: 'The Etsy API response no longer matches the expected format. Update etsy-mcp, or report the listed fields as an issue.'
+        });
+        this.issues = issues;
+    }
+
+    toJSON() {
+        return { ...super.toJSON(), issues: this.issues };
+    }
+}
+
+function extractMissingScope(text: string): string | undefined {
+    const match = text.match(/scopes?\b[^a-z_]*((?:[a-z]+_[rwd])(?:[ ,]+[a-z]+_[rwd])*)/i);
+    return match ? match[1] : undefined;
+}
+
+// Maps a failed axios call onto the matching EtsyApiError subclass
+export function createEtsyApiError(error: AxiosError<any>, method: string, endpoint: string): EtsyApiError {
+    const status = error.response?.status;
+    const body = error.response?.data;
+    const etsyError = typeof body === 'string' ? body : body?.error;
+    const etsyErrorDescription = typeof body === 'object' ? body?.error_description : undefined;
+    const reason = etsyErrorDescription || etsyError || error.message;
+    const message = `API request failed: ${method} ${endpoint}${status ? ` returned ${status}` : ''}: ${reason}`;
+    const details: EtsyApiErrorDetails = { status, method, endpoint, etsyError, etsyErrorDescription };
+
+    // invalid_grant (HTTP 400 from the token endpoint) means the refresh token was revoked or has expired
+    if (status === 401 || etsyError === 'invalid_grant') {
+        return new EtsyAuthExpiredError(message, details);
+    }
+    if (status === 403) {
+        return new EtsyInsufficientScopeError(message, details, extractMissingScope(`${etsyError ?? ''} ${etsyErrorDescription ?? ''}`));
+    }
+    if (status === 404) {
+        return new EtsyNotFoundError(message, details);
+    }
+    if (status === 400 || status === 409 || status === 422) {
+        return new EtsyValidationError(message, details);
+    }
+    if (status === 429) {
+        return new EtsyRateLimitedError(message, details, parseRetryAfter(error.response?.headers?.['retry-after']) ?? undefined);
+    }
+    // 5xx and network failures (no response) are transient
+    return new EtsyApiError(message, {
+        ...details,
+        retryable: status === undefined || status >= 500,
+        remediation: status === undefined
+            ? 'Etsy could not be reached. Check the network connection and retry.'
+            : 'Etsy returned a server error. Retry later.'
+    });
+}
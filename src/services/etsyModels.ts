@@ -0,0 +1,251 @@
+import { z } from 'zod';
+
+// Response models for the Etsy v3 API. Only the fields this server relies on are declared;
+// everything else is kept through passthrough() so tool output still shows Etsy's full objects.
+
+export const moneySchema = z.object({
+    amount: z.number(),
+    divisor: z.number(),
+    currency_code: z.string()
+});
+
+export const shopSchema = z.object({
+    shop_id: z.number(),
+    shop_name: z.string(),
+    user_id: z.number(),
+    title: z.string().nullish(),
+    currency_code: z.string().nullish(),
+    url: z.string().nullish(),
+    listing_active_count: z.number().nullish(),
+    is_vacation: z.boolean().nullish()
+}).passthrough();
+
+export const listingImageSchema = z.object({
+    listing_image_id: z.number(),
+    listing_id: z.number().nullish(),
+    rank: z.number().nullish(),
+    url_75x75: z.string().nullish(),
+    url_570xN: z.string().nullish(),
+    url_fullxfull: z.string().nullish(),
+    alt_text: z.string().nullish()
+}).passthrough();
+
+export const shippingProfileSchema = z.object({
+    shipping_profile_id: z.number(),
+    title: z.string().nullish(),
+    user_id: z.number().nullish(),
+    origin_country_iso: z.string().nullish(),
+    min_processing_days: z.number().nullish(),
+    max_processing_days: z.number().nullish(),
+    shipping_profile_destinations: z.array(z.object({}).passthrough()).nullish()
+}).passthrough();
+
+export const inventoryPropertyValueSchema = z.object({
+    property_id: z.number(),
+    property_name: z.string().nullish(),
+    scale_id: z.number().nullish(),
+    scale_name: z.string().nullish(),
+    value_ids: z.array(z.number()),
+    values: z.array(z.string())
+}).passthrough();
+
+export const inventoryOfferingSchema = z.object({
+    offering_id: z.number().nullish(),
+    price: moneySchema,
+    quantity: z.number(),
+    is_enabled: z.boolean(),
+    is_deleted: z.boolean().nullish()
+}).passthrough();
+
+export const inventoryProductSchema = z.object({
+    product_id: z.number().nullish(),
+    sku: z.string().nullish(),
+    is_deleted: z.boolean().nullish(),
+    property_values: z.array(inventoryPropertyValueSchema),
+    offerings: z.array(inventoryOfferingSchema)
+}).passthrough();
+
+export const listingInventorySchema = z.object({
+    products: z.array(inventoryProductSchema),
+    price_on_property: z.array(z.number()),
+    quantity_on_property: z.array(z.number()),
+    sku_on_property: z.array(z.number())
+}).passthrough();
+
+export const listingSchema = z.object({
+    listing_id: z.number(),
+    shop_id: z.number().nullish(),
+    user_id: z.number().nullish(),
+    title: z.string(),
+    description: z.string().nullish(),
+    state: z.string(),
+    quantity: z.number().nullish(),
+    price: moneySchema.nullish(),
+    url: z.string().nullish(),
+    tags: z.array(z.string()).nullish(),
+    materials: z.array(z.string()).nullish(),
+    taxonomy_id: z.number().nullish(),
+    shipping_profile_id: z.number().nullish(),
+    listing_type: z.string().nullish(),
+    who_made: z.string().nullish(),
+    when_made: z.string().nullish(),
+    should_auto_renew: z.boolean().nullish(),
+    type: z.string().nullish(),
+    skus: z.array(z.string()).nullish(),
+    is_supply: z.boolean().nullish(),
+    is_taxable: z.boolean().nullish(),
+    is_personalizable: z.boolean().nullish(),
+    shop_section_id: z.number().nullish(),
+    return_policy_id: z.number().nullish(),
+    item_weight: z.number().nullish(),
+    item_weight_unit: z.string().nullish(),
+    item_length: z.number().nullish(),
+    item_width: z.number().nullish(),
+    item_height: z.number().nullish(),
+    item_dimensions_unit: z.string().nullish(),
+    views: z.number().nullish(),
+    num_favorers: z.number().nullish(),
+    created_timestamp: z.number().nullish(),
+    creation_timestamp: z.number().nullish(),
+    updated_timestamp: z.number().nullish(),
+    last_modified_timestamp: z.number().nullish(),
+    ending_timestamp: z.number().nullish(),
+    // Present only when requested through the includes parameter
+    images: z.array(listingImageSchema).nullish(),
+    shipping_profile: shippingProfileSchema.nullish(),
+    inventory: listingInventorySchema.nullish()
+}).passthrough();
+
+export const transactionSchema = z.object({
+    transaction_id: z.number(),
+    receipt_id: z.number().nullish(),
+    listing_id: z.number().nullish(),
+    title: z.string().nullish(),
+    quantity: z.number(),
+    price: moneySchema.nullish(),
+    sku: z.string().nullish(),
+    variations: z.array(z.object({
+        formatted_name: z.string().nullish(),
+        formatted_value: z.string().nullish()
+    }).passthrough()).nullish()
+}).passthrough();
+
+export const receiptSchema = z.object({
+    receipt_id: z.number(),
+    status: z.string().nullish(),
+    name: z.string().nullish(),
+    buyer_email: z.string().nullish(),
+    is_paid: z.boolean().nullish(),
+    is_shipped: z.boolean().nullish(),
+    create_timestamp: z.number().nullish(),
+    created_timestamp: z.number().nullish(),
+    grandtotal: moneySchema.nullish(),
+    city: z.string().nullish(),
+    state: z.string().nullish(),
+    country_iso: z.string().nullish(),
+    message_from_buyer: z.string().nullish(),
+    transactions: z.array(transactionSchema).nullish(),
+    shipments: z.array(z.object({}).passthrough()).nullish()
+}).passthrough();
+
+export const reviewSchema = z.object({
+    shop_id: z.number().nullish(),
+    listing_id: z.number().nullish(),
+    transaction_id: z.number().nullish(),
+    buyer_user_id: z.number().nullish(),
+    rating: z.number(),
+    review: z.string().nullish(),
+    language: z.string().nullish(),
+    create_timestamp: z.number().nullish(),
+    created_timestamp: z.number().nullish()
+}).passthrough();
+
+// Ledger amounts are integers in the currency's minor unit (see toDecimalAmount)
+export const ledgerEntrySchema = z.object({
+    entry_id: z.number(),
+    ledger_id: z.number().nullish(),
+    sequence_number: z.number().nullish(),
+    amount: z.number(),
+    currency: z.string(),
+    description: z.string().nullish(),
+    balance: z.number(),
+    create_date: z.number().nullish(),
+    created_timestamp: z.number().nullish(),
+    ledger_type: z.string().nullish(),
+    reference_type: z.string().nullish(),
+    reference_id: z.string().nullish()
+}).passthrough();
+
+export const paymentSchema = z.object({
+    payment_id: z.number(),
+    receipt_id: z.number().nullish(),
+    amount_gross: moneySchema,
+    amount_fees: moneySchema,
+    amount_net: moneySchema,
+    currency: z.string().nullish(),
+    status: z.string().nullish()
+}).passthrough();
+
+// Nodes nest their children, so the type is declared for z.lazy
+export interface SellerTaxonomyNode {
+    id: number;
+    level: number;
+    name: string;
+    parent_id?: number | null;
+    children_ids?: number[] | null;
+    children?: SellerTaxonomyNode[] | null;
+    [key: string]: unknown;
+}
+
+export const sellerTaxonomyNodeSchema: z.ZodType<SellerTaxonomyNode> = z.lazy(() => z.object({
+    id: z.number(),
+    level: z.number(),
+    name: z.string(),
+    parent_id: z.number().nullish(),
+    children_ids: z.array(z.number()).nullish(),
+    children: z.array(sellerTaxonomyNodeSchema).nullish()
+}).passthrough());
+
+export const taxonomyPropertySchema = z.object({
+    property_id: z.number(),
+    name: z.string(),
+    display_name: z.string().nullish(),
+    is_required: z.boolean().nullish(),
+    supports_attributes: z.boolean().nullish(),
+    supports_variations: z.boolean().nullish(),
+    is_multivalued: z.boolean().nullish(),
+    scales: z.array(z.object({}).passthrough()).nullish(),
+    possible_values: z.array(z.object({
+        value_id: z.number().nullish(),
+        name: z.string()
+    }).passthrough()).nullish()
+}).passthrough();
+
+export function paginatedSchema<T extends z.ZodTypeAny>(item: T) {
+    return z.object({
+        count: z.number(),
+        results: z.array(item)
+    });
+}
+
+export const oauthTokenResponseSchema = z.object({
+    access_token: z.string(),
+    refresh_token: z.string(),
+    expires_in: z.number(),
+    token_type: z.string(),
+    scope: z.string().optional()
+}).passthrough();
+
+export type Money = z.infer<typeof moneySchema>;
+export type Shop = z.infer<typeof shopSchema>;
+export type ListingImage = z.infer<typeof listingImageSchema>;
+export type ShippingProfile = z.infer<typeof shippingProfileSchema>;
+export type Listing = z.infer<typeof listingSchema>;
+export type Transaction = z.infer<typeof transactionSchema>;
+export type Receipt = z.infer<typeof receiptSchema>;
+export type ListingInventory = z.infer<typeof listingInventorySchema>;
+export type Review = z.infer<typeof reviewSchema>;
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+export type Payment = z.infer<typeof paymentSchema>;
+export type TaxonomyProperty = z.infer<typeof taxonomyPropertySchema>;
+export type OAuthTokenResponse = z.infer<typeof oauthTokenResponseSchema> & { user_id?: number };
@@ -0,0 +1,66 @@
+// URIs of the shop data exposed as MCP resources
+export const SHOP_RESOURCE_TEMPLATE = 'etsy://shops/{shop_id}';
+export const LISTING_RESOURCE_TEMPLATE = 'etsy://shops/{shop_id}/listings/{listing_id}';
+export const SHIPPING_PROFILES_RESOURCE_TEMPLATE = 'etsy://shops/{shop_id}/shipping-profiles';
+
+export type EtsyResource =
+    | { kind: 'shop'; shopId: number }
+    | { kind: 'listing'; shopId: number; listingId: number }
+    | { kind: 'shipping-profiles'; shopId: number };
+
+// What a mutating tool changed, so subscribers of the affected resources can be notified
+export interface ResourceChange {
+    listingId?: number;
+    shippingProfilesOf?: number;
+    // Resources were created or deleted, so resource lists are stale
+    listChanged?: boolean;
+}
+
+export function shopResourceUri(shopId: number | string): string {
+    return `etsy://shops/${shopId}`;
+}
+
+export function listingResourceUri(shopId: number | string, listingId: number | string): string {
+    return `etsy://shops/${shopId}/listings/${listingId}`;
+}
+
+export function shippingProfilesResourceUri(shopId: number | string): string {
+    return `etsy://shops/${shopId}/shipping-profiles`;
+}
+
+// Parses one of the URIs above; returns null for anything else
+export function parseResourceUri(uri: string): EtsyResource | null {
+    const match = /^etsy:\/\/shops\/(\d+)(?:\/listings\/(\d+)|\/(shipping-profiles))?\/?$/.exec(uri);
+    if (!match) {
+        return null;
+    }
+    const shopId = Number(match[1]);
+    if (match[2]) {
+        return { kind: 'listing', shopId, listingId: Number(match[2]) };
+    }
+    return match[3] ? { kind: 'shipping-profiles', shopId } : { kind: 'shop', shopId };
+}
+
+// Whether the change affects the resource behind `uri`. Listing changes match by listing ID
+// alone, since tools like delete_listing do not know which shop the listing belongs to.
+export function isAffectedBy(uri: string, change: ResourceChange): boolean {
+    const resource = parseResourceUri(uri);
+    switch (resource?.kind) {
+        case 'listing':
+            return change.listingId !== undefined && resource.listingId === change.listingId;
+        case 'shipping-profiles':
+            return change.shippingProfilesOf !== undefined && resource.shopId === change.shippingProfilesOf;
+        default:
+            return false;
+    }
+}
+
+// Reads a numeric template variable (the SDK passes strings, or arrays for exploded variables)
+export function readIdVariable(variables: Record<string, string | string[]>, name: string): number {
+    const raw = variables[name];
+    const value = Number(Array.isArray(raw) ? raw[0] : raw);
+    if (!Number.isInteger(value) || value <= 0) {
+        throw new Error(`Invalid ${name} "${raw}" in resource URI.`);
+    }
+    return value;
+}
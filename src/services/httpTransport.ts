@@ -0,0 +1,189 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import crypto from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { newCorrelationId, runWithContext } from './requestContext.js';
+import { logger } from '../utils/logger.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export const DEFAULT_HTTP_PORT = 3004;
+
+export interface HttpTransportOptions {
+    host: string;
+    port: number;
+    // Clients must send `Authorization: Bearer <authToken>` on every request
+    authToken: string;
+}
+
+// Reads ETSY_MCP_TRANSPORT; anything but "http" (or "sse") keeps the stdio default
+export function getTransportMode(): TransportMode {
+    const mode = (process.env.ETSY_MCP_TRANSPORT || 'stdio').trim().toLowerCase();
+    if (mode === 'http' || mode === 'sse') {
+        return 'http';
+    }
+    if (mode !== 'stdio') {
+        throw new Error(`Unknown ETSY_MCP_TRANSPORT "${process.env.ETSY_MCP_TRANSPORT}". Use "stdio" or "http".`);
+    }
+    return 'stdio';
+}
+
+export function getHttpTransportOptions(): HttpTransportOptions {
+    const authToken = process.env.ETSY_MCP_HTTP_TOKEN?.trim();
+    if (!authToken) {
+        throw new Error('ETSY_MCP_HTTP_TOKEN must be set when ETSY_MCP_TRANSPORT=http; clients authenticate with it as a bearer token.');
+    }
+    const port = parseInt(process.env.ETSY_MCP_HTTP_PORT ?? '', 10);
+    return {
+        host: process.env.ETSY_MCP_HTTP_HOST || process.env.ETSY_MCP_HOST || 'localhost',
+        port: Number.isFinite(port) && port > 0 ? port : DEFAULT_HTTP_PORT,
+        authToken
+    };
+}
+
+// Serves MCP over Streamable HTTP (/mcp) and the older HTTP+SSE protocol (/sse + /messages).
+// Every client session gets its own McpServer from the factory, since a server holds one transport at a time.
+export class McpHttpServer {
+    private app: express.Application;
+    private server: Server | null = null;
+    private sessions = new Map<string, { transport: StreamableHTTPServerTransport | SSEServerTransport; server: McpServer }>();
+
+    constructor(private readonly options: HttpTransportOptions, private readonly createServer: () => McpServer) {
+        this.app = express();
+        // Tool calls made by a request log with the request's correlation ID
+        this.app.use((req, res, next) => runWithContext({ correlationId: newCorrelationId() }, next));
+        this.app.use(this.authenticate.bind(this));
+        this.app.use(express.json({ limit: '4mb' }));
+        this.setupRoutes();
+    }
+
+    private authenticate(req: Request, res: Response, next: NextFunction) {
+        const header = req.headers.authorization ?? '';
+        const match = /^Bearer\s+(.+)$/i.exec(header);
+        if (!match || !tokensMatch(match[1].trim(), this.options.authToken)) {
+            res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized' });
+            return;
+        }
+        next();
+    }
+
+    private setupRoutes() {
+        this.app.post('/mcp', async (req: Request, res: Response) => {
+            const sessionId = req.headers['mcp-session-id'];
+            const existing = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+            if (existing) {
+                if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+                    this.sendJsonRpcError(res, 400, 'Session belongs to a different transport.');
+                    return;
+                }
+                await existing.transport.handleRequest(req, res, req.body);
+                return;
+            }
+            if (sessionId || !isInitializeRequest(req.body)) {
+                this.sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Unknown session.' : 'No session; send an initialize request first.');
+                return;
+            }
+
+            const server = this.createServer();
+            const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => crypto.randomUUID(),
+                onsessioninitialized: id => {
+                    this.sessions.set(id, { transport, server });
+                    logger.info(`[MCP HTTP] Session ${id} opened`);
+                }
+            });
+            transport.onclose = () => this.forgetSession(transport.sessionId);
+            await server.connect(transport);
+            await transport.handleRequest(req, res, req.body);
+        });
+
+        // Server-to-client stream (GET) and session termination (DELETE) of Streamable HTTP
+        const handleSessionRequest = async (req: Request, res: Response) => {
+            const sessionId = req.headers['mcp-session-id'];
+            const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+            if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+                this.sendJsonRpcError(res, 404, 'Unknown session.');
+                return;
+            }
+            await session.transport.handleRequest(req, res);
+        };
+        this.app.get('/mcp', handleSessionRequest);
+        this.app.delete('/mcp', handleSessionRequest);
+
+        // Deprecated HTTP+SSE transport for clients that predate Streamable HTTP
+        this.app.get('/sse', async (_req: Request, res: Response) => {
+            const server = this.createServer();
+            const transport = new SSEServerTransport('/messages', res);
+            this.sessions.set(transport.sessionId, { transport, server });
+            transport.onclose = () => this.forgetSession(transport.sessionId);
+            logger.info(`[MCP HTTP] SSE session ${transport.sessionId} opened`);
+            await server.connect(transport);
+        });
+
+        this.app.post('/messages', async (req: Request, res: Response) => {
+            const session = typeof req.query.sessionId === 'string' ? this.sessions.get(req.query.sessionId) : undefined;
+            if (!session || !(session.transport instanceof SSEServerTransport)) {
+                res.status(404).send('Unknown session');
+                return;
+            }
+            await session.transport.handlePostMessage(req, res, req.body);
+        });
+    }
+
+    private forgetSession(sessionId: string | undefined) {
+        if (sessionId && this.sessions.delete(sessionId)) {
+            logger.info(`[MCP HTTP] Session ${sessionId} closed`);
+        }
+    }
+
+    private sendJsonRpcError(res: Response, status: number, message: string) {
+        res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this.server) {
+                resolve();
+                return;
+            }
+            const server = this.app.listen(this.options.port, this.options.host, () => {
+                logger.info(`MCP server listening at http://${this.options.host}:${this.options.port}/mcp (SSE: /sse)`);
+                resolve();
+            });
+            server.once('error', error => {
+                this.server = null;
+                reject(error);
+            });
+            this.server = server;
+        });
+    }
+
+    // Closes every session, then stops accepting connections
+    async stop(): Promise<void> {
+        const sessions = [...this.sessions.values()];
+        this.sessions.clear();
+        await Promise.allSettled(sessions.map(session => session.server.close()));
+
+        const server = this.server;
+        this.server = null;
+        if (!server) {
+            return;
+        }
+        await new Promise<void>((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+            // Open SSE streams would otherwise keep close() waiting indefinitely
+            server.closeAllConnections();
+        });
+        logger.info('MCP HTTP server stopped');
+    }
+}
+
+// Constant-time comparison so the token cannot be guessed byte by byte from response timing
+function tokensMatch(provided: string, expected: string): boolean {
+    const a = crypto.createHash('sha256').update(provided).digest();
+    const b = crypto.createHash('sha256').update(expected).digest();
+    return crypto.timingSafeEqual(a, b);
+}
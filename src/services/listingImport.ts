@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { listingDataSchema, ListingData } from './listingSchemas.js';
+import { parseCsv } from '../utils/csv.js';
+
+export interface ValidatedImportRow {
+    row: number;
+    title?: string;
+    data?: ListingData;
+    image_files: string[];
+    errors: string[];
+}
+
+const NUMERIC_FIELDS = ['price', 'quantity', 'taxonomy_id', 'shipping_profile_id'];
+const LIST_FIELDS = ['tags', 'materials'];
+
+// Reads a CSV or JSON catalog file from ETSY_IMPORT_SOURCE_DIR; JSON may be an array or { listings: [...] }
+export function readImportFile(fileName: string): Record<string, unknown>[] {
+    const importDir = process.env.ETSY_IMPORT_SOURCE_DIR;
+    if (!importDir) {
+        throw new Error('Import directory is not configured. Set ETSY_IMPORT_SOURCE_DIR in the server environment.');
+    }
+    const filePath = path.join(importDir, path.basename(fileName));
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Import file not found: ${filePath}`);
+    }
+
+    const contents = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.csv') {
+        return parseCsv(contents);
+    }
+    if (extension === '.json') {
+        const parsed = JSON.parse(contents);
+        const rows = Array.isArray(parsed) ? parsed : parsed?.listings;
+        if (!Array.isArray(rows)) {
+            throw new Error('JSON import files must contain an array of listings or an object with a "listings" array.');
+        }
+        return rows;
+    }
+    throw new Error(`Unsupported import file type "${extension}". Use .csv or .json.`);
+}
+
+function splitList(value: unknown, separator: RegExp): string[] | undefined {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+        return undefined;
+    }
+    return value.split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+// CSV cells are all strings: empty cells become undefined, numbers are parsed and lists are split
+function coerceRow(raw: Record<string, unknown>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    Object.entries(raw).forEach(([key, value]) => {
+        const column = key.trim().toLowerCase();
+        if (value === '' || value === null) {
+            return;
+        }
+        if (NUMERIC_FIELDS.includes(column) && typeof value === 'string') {
+            const number = Number(value.trim());
+            row[column] = isNaN(number) ? value : number;
+        } else if (LIST_FIELDS.includes(column)) {
+            row[column] = splitList(value, /[|,]/);
+        } else {
+            row[column] = typeof value === 'string' ? value.trim() : value;
+        }
+    });
+    return row;
+}
+
+// Validates every row against the same schema as create_listing; row numbers are 1-based data rows
+export function validateImportRows(rawRows: Record<string, unknown>[]): ValidatedImportRow[] {
+    return rawRows.map((raw, index) => {
+        const { image_files, ...fields } = coerceRow(raw);
+        const parsed = listingDataSchema.safeParse(fields);
+        return {
+            row: index + 1,
+            title: typeof fields.title === 'string' ? fields.title : undefined,
+            data: parsed.success ? parsed.data : undefined,
+            image_files: splitList(image_files, /[|;]/) || [],
+            errors: parsed.success ? [] : parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`)
+        };
+    });
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// Shared by create_listing and import_listings so both apply exactly the same validation
+export const listingDataSchema = z.object({
+    title: z.string(),
+    description: z.string(),
+    price: z.number(),
+    quantity: z.number(),
+    who_made: z.string().describe("e.g., 'i_did', 'collective', 'someone_else'"),
+    when_made: z.string().describe("e.g., 'made_to_order', '2020_2024', '1950_1959'"),
+    taxonomy_id: z.number().describe("The numeric ID of the listing's category. Use search_taxonomy to find it."),
+    shipping_profile_id: z.number().int().optional().describe("The numeric ID of the shipping profile. Required if type is 'physical' or 'both'."),
+    type: z.enum(["physical", "digital", "download", "both"]).describe("Listing type: 'physical', 'digital', 'download', or 'both' (a physical item that also comes with a download). 'physical' and 'both' require a shipping_profile_id."),
+    tags: z.array(z.string()).max(13).optional().describe("Up to 13 tags."),
+    materials: z.array(z.string()).optional().describe("Materials used in the item.")
+}).refine(data => {
+    // export_listings writes Etsy's listing_type, which is 'both' for physical listings with a download
+    if ((data.type === "physical" || data.type === "both") && data.shipping_profile_id === undefined) {
+        return false;
+    }
+    return true;
+}, {
+    message: "shipping_profile_id is required when listing type is 'physical' or 'both'. Use list_shop_shipping_profiles or create_shop_shipping_profile.",
+    path: ["shipping_profile_id"],
+});
+
+export type ListingData = z.infer<typeof listingDataSchema>;
+
+// Ensure listing_data structure matches API expectations
+export function buildCreateListingPayload(data: ListingData) {
+    const listingData = {
+        title: data.title,
+        description: data.description,
+        price: data.price,
+        quantity: data.quantity,
+        who_made: data.who_made,
+        when_made: data.when_made,
+        taxonomy_id: data.taxonomy_id,
+        shipping_profile_id: data.shipping_profile_id, // Pass it through
+        type: data.type,
+        tags: data.tags,
+        materials: data.materials
+    };
+
+    type ListingDataKeys = keyof typeof listingData;
+    // Remove undefined optional fields so they are not sent as null, esp. shipping_profile_id if not physical
+    (Object.keys(listingData) as Array<ListingDataKeys>).forEach(key => {
+        if (listingData[key] === undefined) {
+            delete listingData[key];
+        }
+    });
+
+    return listingData;
+}
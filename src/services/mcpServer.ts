@@ -1,24 +1,162 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import type { Protocol } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { OAuthServer } from './oauthServer.js';
+import { McpHttpServer, TransportMode, getHttpTransportOptions, getTransportMode } from './httpTransport.js';
 import { etsyApi } from './etsyApi.js';
-import { TokenStorage } from './tokenStorage.js';
+import { TokenStorage, isValidProfileName } from './tokenStorage.js';
+import { RequestContext, getRequestContext, newCorrelationId, runWithContext } from './requestContext.js';
+import { tokenManager } from './tokenManager.js';
+import { auditLog, listingRestoreFields, undoKindOf } from './auditLog.js';
+import { ETSY_SCOPES, EtsyScope, LEGACY_SCOPES, getConfiguredScopes, missingScopes, parseScopes } from './oauthScopes.js';
+import { EtsyApiError } from './etsyApiError.js';
+import { Listing, Payment, Shop } from './etsyModels.js';
+import {
+  LISTING_RESOURCE_TEMPLATE, ResourceChange, SHIPPING_PROFILES_RESOURCE_TEMPLATE, SHOP_RESOURCE_TEMPLATE,
+  isAffectedBy, listingResourceUri, readIdVariable, shippingProfilesResourceUri, shopResourceUri
+} from './etsyResources.js';
+import { taxonomyCache } from './taxonomyCache.js';
+import { buildCreateListingPayload, listingDataSchema } from './listingSchemas.js';
+import { readImportFile, validateImportRows } from './listingImport.js';
+import { PromptMessageResult, listingAuditPrompt, listingFromNotesPrompt, negativeReviewPrompt, promptResult, readNotesFile, unshippedOrdersPrompt } from './sellerPrompts.js';
 import { z } from 'zod';
 import open from 'open';
 import { logger } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { toCsv } from '../utils/csv.js';
+import { toEndEpochSeconds, toEpochSeconds } from '../utils/dates.js';
+import { writeExportFile } from '../utils/exportFiles.js';
+import { LEDGER_COLUMNS, normalizeLedgerEntry } from '../utils/ledger.js';
+import { LISTING_EXPORT_COLUMNS, flattenListing } from '../utils/listingExport.js';
+import { checkListingReadiness } from '../utils/listingReadiness.js';
+import { moneyToNumber } from '../utils/money.js';
+import { summarizeReceipt } from '../utils/receipts.js';
+import { summarizeReviews } from '../utils/reviews.js';
+import { findShopByName, summarizeShop } from '../utils/shops.js';
+import { InventoryProduct, applyInventoryChanges, comparableInventory, summarizeInventory, toInventoryUpdatePayload } from '../utils/inventory.js';
 import path from 'path'; // Import path module
+import fs from 'fs';
 import { fileURLToPath } from 'url'; // Import fileURLToPath
+import { isDeepStrictEqual } from 'util';
+
+// Optional on every tool; selects the stored Etsy account profile for that call
+const profileArgument = z.string()
+  .refine(isValidProfileName, 'Profile names use up to 32 letters, digits, "-" or "_".')
+  .optional()
+  .describe('Account profile to use for this call (see list_profiles). Defaults to the active profile.');
+
+// Added to every tool in MUTATING_TOOLS; overrides ETSY_MCP_DRY_RUN for that call
+const dryRunArgument = z.boolean()
+  .optional()
+  .describe('Preview the requests this call would send to Etsy (method, endpoint, payload) without sending them. Defaults to ETSY_MCP_DRY_RUN.');
+
+// Arguments registerPrompt and registerTool add to every prompt and tool
+const promptArgsSchema = z.object({ profile: profileArgument });
+const toolArgsSchema = promptArgsSchema.extend({ dry_run: dryRunArgument });
+
+// Shape of the arguments a prompt declares; the SDK only accepts string arguments for prompts
+type PromptArgsShape = Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+
+// Prompt arguments are always strings; numeric IDs are validated before use
+const promptIdArgument = (description: string) => z.string()
+  .regex(/^\d+$/, 'Must be a numeric ID.')
+  .optional()
+  .describe(description);
+
+// OAuth scopes each tool needs; calls are refused up front when the stored token lacks one
+const TOOL_SCOPES: Record<string, EtsyScope[]> = {
+  authenticate: [],
+  list_profiles: [],
+  switch_profile: [],
+  remove_profile: [],
+  list_my_shops: ['shops_r'],
+  set_default_shop: ['shops_r'],
+  get_default_shop: [],
+  get_listings: [],
+  get_shop_details: [],
+  create_listing: ['listings_w'],
+  import_listings: ['listings_w'],
+  export_listings: ['listings_r'],
+  get_listing: ['listings_r'],
+  update_listing: ['listings_r', 'listings_w'],
+  delete_listing: ['listings_d'],
+  publish_listing: ['listings_r', 'listings_w'],
+  deactivate_listing: ['listings_r', 'listings_w'],
+  reactivate_listing: ['listings_r', 'listings_w'],
+  get_listing_inventory: ['listings_r'],
+  update_listing_inventory: ['listings_r', 'listings_w'],
+  list_receipts: ['transactions_r'],
+  get_receipt: ['transactions_r'],
+  create_receipt_shipment: ['transactions_w'],
+  create_receipt_shipments_batch: ['transactions_w'],
+  export_payment_ledger: ['transactions_r'],
+  get_reviews: [],
+  search_taxonomy: [],
+  browse_taxonomy: [],
+  get_taxonomy_properties: [],
+  get_rate_limit_status: [],
+  cache_clear: [],
+  list_shop_shipping_profiles: ['shops_r'],
+  create_shop_shipping_profile: ['shops_w'],
+  upload_listing_image: ['listings_w'],
+  list_recent_changes: [],
+  undo_change: ['listings_r', 'listings_w']
+};
+
+// Tools that change data on Etsy and therefore support dry runs
+const MUTATING_TOOLS = new Set([
+  'create_listing', 'import_listings', 'update_listing', 'delete_listing', 'publish_listing', 'deactivate_listing',
+  'reactivate_listing', 'update_listing_inventory', 'create_receipt_shipment', 'create_receipt_shipments_batch',
+  'create_shop_shipping_profile', 'upload_listing_image', 'undo_change'
+]);
+
+// Mutating tools whose handlers build their own dry-run result (with dry_run: true and the recorded requests)
+const SELF_REPORTING_DRY_RUN_TOOLS = new Set(['import_listings']);
+
+// Arguments the rules below read; tools that have them declare them with these types
+type ResourceChangeArgs = { listing_id?: number; shop_id?: number; check_only?: boolean };
+
+// check_only calls send nothing to Etsy, so their readiness report is already the dry-run answer
+const reportsOwnDryRun = (name: string, args: ResourceChangeArgs) => SELF_REPORTING_DRY_RUN_TOOLS.has(name) || args.check_only === true;
+
+// Resources each mutating tool changes; subscribers are notified after a successful call (never on dry runs)
+const TOOL_RESOURCE_CHANGES: Record<string, (args: ResourceChangeArgs, defaultShopId?: number) => ResourceChange> = {
+  create_listing: () => ({ listChanged: true }),
+  import_listings: () => ({ listChanged: true }),
+  update_listing: args => ({ listingId: args.listing_id }),
+  delete_listing: args => ({ listingId: args.listing_id, listChanged: true }),
+  publish_listing: args => (args.check_only ? {} : { listingId: args.listing_id }),
+  deactivate_listing: args => ({ listingId: args.listing_id }),
+  reactivate_listing: args => (args.check_only ? {} : { listingId: args.listing_id }),
+  update_listing_inventory: args => ({ listingId: args.listing_id }),
+  upload_listing_image: args => ({ listingId: args.listing_id }),
+  create_shop_shipping_profile: (args, defaultShopId) => ({ shippingProfilesOf: args.shop_id ?? defaultShopId })
+};
 
 export class EtsyMCPServer {
   private server: McpServer;
   private oauthServer: OAuthServer;
   private tokenStorage: TokenStorage;
+  private httpServer: McpHttpServer | null = null;
+  private transportMode: TransportMode | null = null;
+  // Replayed onto every McpServer created for an HTTP session
+  private registrations: Array<(server: McpServer) => void> = [];
+  // Resource URIs each live server's client subscribed to
+  private subscriptions = new Map<McpServer, Set<string>>();
 
   constructor(oauthServer: OAuthServer) {
     this.oauthServer = oauthServer;
     this.tokenStorage = TokenStorage.getInstance();
-    this.server = new McpServer({
+    this.server = this.createMcpServer();
+
+    this.setupTools();
+    this.setupResources();
+    this.setupPrompts();
+  }
+
+  private createMcpServer(): McpServer {
+    const server = new McpServer({
       name: 'Etsy API',
       version: '1.0.0',
       capabilities: {
@@ -26,58 +164,57 @@ export class EtsyMCPServer {
         fileHandling: false,
       }
     });
+    const subscribed = new Set<string>();
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      subscribed.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscribed.delete(request.params.uri);
+      return {};
+    });
+    server.server.onclose = () => this.subscriptions.delete(server);
+    this.subscriptions.set(server, subscribed);
 
-    this.setupTools();
+    this.registrations.forEach(register => register(server));
+    return server;
   }
 
   private setupTools() {
     // Define schemas
-    const authenticateSchema = z.object({});
+    const authenticateSchema = z.object({
+      profile: profileArgument,
+      scopes: z.array(z.enum(ETSY_SCOPES)).optional().describe('Additional OAuth scopes to request, e.g. ["transactions_w"]. Scopes from ETSY_OAUTH_SCOPES and those already granted to the profile are always requested too.')
+    });
     const getListingsSchema = z.object({ shop_id: z.number() });
     const getShopDetailsSchema = z.object({ shop_id: z.number() });
     const createListingSchema = z.object({
       shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
-      listing_data: z.object({
-        title: z.string(),
-        description: z.string(),
-        price: z.number(),
-        quantity: z.number(),
-        who_made: z.string().describe("e.g., 'i_did', 'collective', 'someone_else'"),
-        when_made: z.string().describe("e.g., 'made_to_order', '2020_2024', '1950_1959'"),
-        taxonomy_id: z.number().describe("The numeric ID of the listing's category."),
-        shipping_profile_id: z.number().int().optional().describe("The numeric ID of the shipping profile. Required if type is 'physical'."),
-        type: z.enum(["physical", "digital", "download"]).describe("Listing type: 'physical', 'digital', or 'download'. 'physical' requires a shipping_profile_id.")
-        // Add other relevant fields like materials, tags, image_ids as needed for a complete listing
-      }).refine(data => {
-        if (data.type === "physical" && data.shipping_profile_id === undefined) {
-          return false;
-        }
-        return true;
-      }, {
-        message: "shipping_profile_id is required when listing type is 'physical'. Use list_shop_shipping_profiles or create_shop_shipping_profile.",
-        path: ["shipping_profile_id"],
-      })
+      listing_data: listingDataSchema
     });
 
     // Authenticate Tool - Initiates the OAuth flow
-    this.server.tool(
+    this.registerTool(
       'authenticate',
-      'Initiate authentication with Etsy via browser.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
+      'Initiate authentication with Etsy via browser. Pass profile to add or re-authenticate a named account profile, and scopes to grant additional OAuth scopes.',
       authenticateSchema.shape,
       async (args: z.infer<typeof authenticateSchema>, extra: unknown) => {
         try {
           // Ensure OAuth server is running
           await this.oauthServer.start(); 
-          const authUrl = this.oauthServer.getAuthInitiationUrl();
-          logger.log(`Generated auth initiation URL: ${authUrl}`);
+          const profile = this.tokenStorage.resolveProfile(args.profile);
+          // Etsy grants exactly the requested scopes, so re-authentication asks for the granted ones again
+          const scopes = [...new Set([...getConfiguredScopes(), ...this.grantedScopes(profile), ...(args.scopes ?? [])])];
+          const authUrl = this.oauthServer.getAuthInitiationUrl(profile, scopes);
+          logger.info(`Authorization URL generated for profile "${profile}"`);
 
           // The MCP client should handle opening this URL.
           // We return the URL and instructions.
           return {
             content: [{
               type: 'text' as const,
-              text: `Please visit this URL to authorize the application: ${authUrl}\nComplete the process in your browser. You can then use other tools.`
+              text: `Please visit this URL to authorize the application: ${authUrl}\nThe Etsy account you sign in with will be stored as profile "${profile}" with scopes: ${scopes.join(' ')}. Complete the process in your browser. You can then use other tools.`
             }]
           };
         } catch (error) {
@@ -87,67 +224,141 @@ export class EtsyMCPServer {
       }
     );
 
-    // Tool to set/discover the default Etsy shop for the authenticated user
-    const setDefaultShopSchema = z.object({}); // No input args for now, could add shop_id later for explicit setting
-    this.server.tool(
+    // Account profile tools
+    const listProfilesSchema = z.object({});
+    this.registerTool(
+      'list_profiles',
+      'Lists the stored Etsy account profiles, their user and default shop, and which one is active.',
+      listProfilesSchema.shape,
+      async (args: z.infer<typeof listProfilesSchema>, extra: unknown) => {
+        try {
+          const profiles = this.tokenStorage.listProfiles().map(profile => ({
+            ...profile,
+            expires_at: profile.expires_at ? new Date(profile.expires_at).toISOString() : null
+          }));
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ active_profile: this.tokenStorage.getActiveProfile(), storage: this.tokenStorage.getBackendName(), profiles }, null, 2)
+            }]
+          };
+        } catch (error) {
+          logger.error('Error in list_profiles:', error);
+          return this.handleError(error, 'Failed to list profiles.');
+        }
+      }
+    );
+
+    const switchProfileSchema = z.object({
+      name: z.string().describe('Name of the profile to make active (see list_profiles).')
+    });
+    this.registerTool(
+      'switch_profile',
+      'Makes a stored account profile the active one. Tools called without a profile argument use the active profile.',
+      switchProfileSchema.shape,
+      async (args: z.infer<typeof switchProfileSchema>, extra: unknown) => {
+        try {
+          this.tokenStorage.setActiveProfile(args.name);
+          const tokens = this.tokenStorage.loadPotentiallyExpiredTokens(args.name);
+          const shop = tokens?.shop_id ? ` Default shop: ${tokens.shop_name || 'N/A'} (ID: ${tokens.shop_id}).` : ' No default shop is set for this profile.';
+          return {
+            content: [{ type: 'text' as const, text: `Active profile is now "${args.name}".${shop}` }]
+          };
+        } catch (error) {
+          logger.error('Error in switch_profile:', error);
+          return this.handleError(error, 'Failed to switch profile.');
+        }
+      }
+    );
+
+    const removeProfileSchema = z.object({
+      name: z.string().describe('Name of the profile to remove, including its stored tokens.')
+    });
+    this.registerTool(
+      'remove_profile',
+      'Removes a stored account profile and its tokens. If it was the active profile, another stored profile becomes active.',
+      removeProfileSchema.shape,
+      async (args: z.infer<typeof removeProfileSchema>, extra: unknown) => {
+        try {
+          this.tokenStorage.removeProfile(args.name);
+          return {
+            content: [{ type: 'text' as const, text: `Profile "${args.name}" removed. Active profile: "${this.tokenStorage.getActiveProfile()}".` }]
+          };
+        } catch (error) {
+          logger.error('Error in remove_profile:', error);
+          return this.handleError(error, 'Failed to remove profile.');
+        }
+      }
+    );
+
+    // Tool to list every shop owned by the authenticated user
+    const listMyShopsSchema = z.object({});
+    this.registerTool(
+      'list_my_shops',
+      'Lists the Etsy shops owned by the authenticated user, marking the current default shop.',
+      listMyShopsSchema.shape,
+      async (args: z.infer<typeof listMyShopsSchema>, extra: unknown) => {
+        try {
+          const shops = await this.getUserShops();
+          const defaultShopId = this.tokenStorage.loadPotentiallyExpiredTokens()?.shop_id;
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ count: shops.length, shops: shops.map(shop => summarizeShop(shop, defaultShopId)) }, null, 2)
+            }]
+          };
+        } catch (error) {
+          logger.error('Error in list_my_shops:', error);
+          return this.handleError(error, 'Failed to list shops.');
+        }
+      }
+    );
+
+    // Tool to choose the default Etsy shop for the authenticated user
+    const setDefaultShopSchema = z.object({
+      shop_id: z.number().int().positive().optional().describe('ID of the shop to use as default. Must belong to the authenticated user.'),
+      shop_name: z.string().min(1).optional().describe('Name of the shop to use as default (case-insensitive, partial names are matched). Ignored if shop_id is given.')
+    });
+    this.registerTool(
       'set_default_shop',
-      'Fetches your Etsy shops and sets the first one found as default. If you have multiple shops, it will use the first one returned by Etsy.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
+      'Sets the default shop used by other tools when no shop_id is given. Pass shop_id or shop_name (see list_my_shops); with neither, the only shop is selected if the account has exactly one.',
       setDefaultShopSchema.shape,
       async (args: z.infer<typeof setDefaultShopSchema>, extra: unknown) => {
         try {
-          const accessToken = await this.getValidAccessToken();
-          if (!accessToken) {
-            return this.handleError(new Error('Authentication required. Please run authenticate first.'));
-          }
-
-          const tokens = this.tokenStorage.getTokens(); // Get full token data including potential user_id
-          if (!tokens?.user_id) {
-            // This might happen if user_id wasn't parsed/stored correctly during token exchange.
-            // Or if old tokens exist without user_id.
-            // Attempt to re-fetch tokens by a pseudo-refresh if refresh_token exists, or re-auth.
-            return this.handleError(new Error('User ID not found. Please try to re-authenticate.'));
-          }
-
-          const userShopsResponse = await etsyApi.getUserShops(tokens.user_id, accessToken);
-          
-          // Handle both possible response structures from Etsy API for user shops
-          let shopToSet: any = null;
-          if (userShopsResponse && userShopsResponse.results && userShopsResponse.count > 0) {
-              // Case 1: Etsy returns a list of shops
-              shopToSet = userShopsResponse.results[0]; 
-              logger.log(`[set_default_shop] Automatically selected shop (from list): ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
-          } else if (userShopsResponse && userShopsResponse.shop_id) {
-              // Case 2: Etsy returns a single shop object directly
-              shopToSet = userShopsResponse; 
-              logger.log(`[set_default_shop] Automatically selected shop (single object): ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
-          } 
-
-          if (!shopToSet) {
-            logger.log('[set_default_shop] No shops found for the user or unexpected response structure from getUserShops.');
+          const shops = await this.getUserShops();
+          if (shops.length === 0) {
+            logger.warn('[set_default_shop] No shops found for the user.');
             return {
               content: [{ type: 'text' as const, text: 'No shops found for your Etsy account.' }]
             };
           }
 
-          // If userShopsResponse.count > 1 (and we got a list), could add logic here to prompt user.
-          // For now, we just proceed with shopToSet which is results[0] or the single object.
-
-          const shopId = shopToSet.shop_id;
-          const shopName = shopToSet.shop_name;
+          let shopToSet: Shop | undefined;
+          if (args.shop_id) {
+            shopToSet = shops.find(shop => shop.shop_id === args.shop_id);
+            if (!shopToSet) {
+              return this.handleError(new Error(`Shop ${args.shop_id} does not belong to the authenticated user. Your shops: ${shops.map(shop => `${shop.shop_name} (ID: ${shop.shop_id})`).join(', ')}.`));
+            }
+          } else if (args.shop_name) {
+            const match = findShopByName(shops, args.shop_name);
+            if (!match.shop) {
+              const reason = match.reason === 'ambiguous' ? 'matches more than one shop' : 'does not match any of your shops';
+              return this.handleError(new Error(`"${args.shop_name}" ${reason}. Use shop_id with one of: ${match.candidates.map(shop => `${shop.shop_name} (ID: ${shop.shop_id})`).join(', ')}.`));
+            }
+            shopToSet = match.shop;
+          } else if (shops.length === 1) {
+            shopToSet = shops[0];
+          } else {
+            return this.handleError(new Error(`Your account has ${shops.length} shops. Pass shop_id or shop_name to choose one: ${shops.map(shop => `${shop.shop_name} (ID: ${shop.shop_id})`).join(', ')}.`));
+          }
 
-          // Save to token storage
-          await this.tokenStorage.saveTokens({
-            ...tokens, // Preserve existing tokens (access, refresh, expiry)
-            user_id: tokens.user_id,
-            shop_id: shopId,
-            shop_name: shopName
-          });
+          this.tokenStorage.setDefaultShop(shopToSet.shop_id, shopToSet.shop_name);
+          logger.info(`[set_default_shop] Default shop set to ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
 
           return {
             content: [{
               type: 'text' as const,
-              text: `Default shop set to: ${shopName} (ID: ${shopId}). Other tools will now use this shop unless a specific shop_id is provided.`
+              text: `Default shop set to: ${shopToSet.shop_name} (ID: ${shopToSet.shop_id}). Other tools will now use this shop unless a specific shop_id is provided.`
             }]
           };
 
@@ -160,10 +371,9 @@ export class EtsyMCPServer {
 
     // Tool to get the currently set default Etsy shop
     const getDefaultShopSchema = z.object({});
-    this.server.tool(
+    this.registerTool(
       'get_default_shop',
       'Gets the currently configured default Etsy shop ID and name.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
       getDefaultShopSchema.shape,
       async (args: z.infer<typeof getDefaultShopSchema>, extra: unknown) => {
         try {
@@ -187,10 +397,9 @@ export class EtsyMCPServer {
     );
 
     // Get Listings Tool
-    this.server.tool(
+    this.registerTool(
       'get_listings',
       'Get all active listings for a shop',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
       getListingsSchema.shape,
       async (args: z.infer<typeof getListingsSchema>, extra: unknown) => {
         try {
@@ -204,7 +413,7 @@ export class EtsyMCPServer {
             const storedTokens = this.tokenStorage.getTokens();
             if (storedTokens?.shop_id) {
               shopIdToUse = storedTokens.shop_id;
-              logger.log(`Using default shop ID: ${shopIdToUse} for get_listings`);
+              logger.debug(`Using default shop ID: ${shopIdToUse} for get_listings`);
             } else {
               return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
             }
@@ -221,10 +430,9 @@ export class EtsyMCPServer {
     );
 
     // Get Shop Details Tool
-    this.server.tool(
+    this.registerTool(
       'get_shop_details',
       'Get details for a specific shop',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
       getShopDetailsSchema.shape,
       async (args: z.infer<typeof getShopDetailsSchema>, extra: unknown) => {
         try {
@@ -238,7 +446,7 @@ export class EtsyMCPServer {
             const storedTokens = this.tokenStorage.getTokens();
             if (storedTokens?.shop_id) {
               shopIdToUse = storedTokens.shop_id;
-              logger.log(`Using default shop ID: ${shopIdToUse} for get_shop_details`);
+              logger.debug(`Using default shop ID: ${shopIdToUse} for get_shop_details`);
             } else {
               return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
             }
@@ -255,10 +463,9 @@ export class EtsyMCPServer {
     );
 
     // Create Listing Tool
-    this.server.tool(
+    this.registerTool(
       'create_listing',
       'Creates a new Etsy listing. For physical items, ensure you have a shipping_profile_id. To add images, create the listing first, then use the `upload_listing_image` tool with the returned listing_id.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
       createListingSchema.shape,
       async (args: z.infer<typeof createListingSchema>, extra: unknown) => {
         try {
@@ -272,34 +479,13 @@ export class EtsyMCPServer {
             const storedTokens = this.tokenStorage.getTokens();
             if (storedTokens?.shop_id) {
               shopIdToUse = storedTokens.shop_id;
-              logger.log(`Using default shop ID: ${shopIdToUse} for create_listing`);
+              logger.debug(`Using default shop ID: ${shopIdToUse} for create_listing`);
             } else {
               return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
             }
           }
 
-          // Ensure listing_data structure matches API expectations if needed
-          const listingData = {
-            title: args.listing_data.title,
-            description: args.listing_data.description,
-            price: args.listing_data.price, 
-            quantity: args.listing_data.quantity,
-            who_made: args.listing_data.who_made,
-            when_made: args.listing_data.when_made,
-            taxonomy_id: args.listing_data.taxonomy_id,
-            shipping_profile_id: args.listing_data.shipping_profile_id, // Pass it through
-            type: args.listing_data.type
-            // image_ids: args.listing_data.image_ids, // Example if you add image handling
-            // materials: args.listing_data.materials // Example
-          };
-          
-          type ListingDataKeys = keyof typeof listingData;
-          // Remove undefined optional fields so they are not sent as null, esp. shipping_profile_id if not physical
-          (Object.keys(listingData) as Array<ListingDataKeys>).forEach(key => {
-            if (listingData[key] === undefined) {
-              delete listingData[key];
-            }
-          });
+          const listingData = buildCreateListingPayload(args.listing_data);
 
           const newListing = await etsyApi.createListing(
             shopIdToUse.toString(),
@@ -315,226 +501,1650 @@ export class EtsyMCPServer {
       }
     );
 
-    // --- Shipping Profile Tools ---
-
-    // List Shop Shipping Profiles Tool
-    const listShopShippingProfilesSchema = z.object({
-      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop.")
+    // Import Listings Tool
+    const importListingsSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      file_name: z.string().describe("Name of a .csv or .json file in the configured import directory (ETSY_IMPORT_SOURCE_DIR)."),
+      dry_run: z.boolean().optional().describe("Validate rows, check image files exist and preview the requests for every valid row without calling Etsy; works without authentication. Defaults to ETSY_MCP_DRY_RUN."),
+      attach_images: z.boolean().optional().describe("Upload the files named in each row's image_files column from ETSY_IMAGE_SOURCE_DIR. Defaults to true."),
+      concurrency: z.number().int().min(1).max(5).optional().describe("Maximum number of rows processed in parallel. Defaults to 2.")
     });
-    this.server.tool(
-      'list_shop_shipping_profiles',
-      'Lists all shipping profiles for a given shop (or the default shop).',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
-      listShopShippingProfilesSchema.shape,
-      async (args: z.infer<typeof listShopShippingProfilesSchema>, extra: unknown) => {
+    this.registerTool(
+      'import_listings',
+      'Bulk-creates draft listings from a CSV or JSON file. Every row is validated with the same rules as create_listing; invalid rows are skipped and reported. Rows can name images (image_files, separated by |) to upload from the image source directory. Use dry_run to validate and preview offline without creating anything.',
+      importListingsSchema.shape,
+      async (args: z.infer<typeof importListingsSchema>, extra: unknown) => {
         try {
-          const accessToken = await this.getValidAccessToken();
-          if (!accessToken) {
-            return this.handleError(new Error('Authentication required.'));
+          const rows = validateImportRows(readImportFile(args.file_name));
+          const attachImages = args.attach_images !== false;
+          const imageSourceDir = process.env.ETSY_IMAGE_SOURCE_DIR;
+          if (attachImages && !imageSourceDir && rows.some(row => row.image_files.length > 0)) {
+            return this.handleError(new Error('Rows reference image files, but ETSY_IMAGE_SOURCE_DIR is not configured. Configure it or set attach_images to false.'));
           }
+          const imagePath = (fileName: string) => path.join(imageSourceDir || '', path.basename(fileName));
+          const dryRun = getRequestContext().dryRun;
 
-          let shopIdToUse = args.shop_id;
+          // Dry runs only record requests, so they need neither a token nor a shop and never call Etsy
+          const accessToken = dryRun ? '' : await this.getValidAccessToken();
+          if (accessToken === null) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'import_listings') ?? (dryRun ? '{shop_id}' : null);
           if (!shopIdToUse) {
-            const storedTokens = this.tokenStorage.getTokens();
-            if (storedTokens?.shop_id) {
-              shopIdToUse = storedTokens.shop_id;
-            } else {
-              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
-            }
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
           }
 
-          const profiles = await etsyApi.getShopShippingProfiles(shopIdToUse.toString(), accessToken);
+          const settled = await mapWithConcurrency(rows, args.concurrency ?? 2, async row => {
+            if (!row.data) {
+              return { row: row.row, title: row.title, status: 'invalid', errors: row.errors };
+            }
+
+            let listing;
+            try {
+              listing = await etsyApi.createListing(shopIdToUse.toString(), buildCreateListingPayload(row.data), accessToken);
+            } catch (error) {
+              return { row: row.row, title: row.title, status: 'failed', errors: [error instanceof Error ? error.message : String(error)] };
+            }
+
+            const images = [];
+            if (attachImages) {
+              // Images are uploaded in order so the first file becomes the primary image
+              for (const file of row.image_files) {
+                try {
+                  // In a dry run the listing does not exist yet, so planned uploads show a placeholder ID
+                  const listingId = dryRun ? '{listing_id}' : String(listing.listing_id);
+                  const image = await etsyApi.uploadListingImageFromFilePath(shopIdToUse.toString(), listingId, imagePath(file), path.basename(file), accessToken);
+                  images.push({ file_name: file, status: dryRun ? 'planned' : 'uploaded', listing_image_id: image.listing_image_id });
+                } catch (error) {
+                  images.push({ file_name: file, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+                }
+              }
+            }
+            return { row: row.row, title: row.title, status: dryRun ? 'planned' : 'created', listing_id: listing.listing_id, images };
+          });
+
+          const results = settled.map((outcome, index) => outcome.status === 'fulfilled'
+            ? outcome.value
+            : { row: rows[index].row, title: rows[index].title, status: 'failed', errors: [String(outcome.reason)] });
+          const count = (status: string) => results.filter(result => result.status === status).length;
+          const summary = dryRun
+            ? { dry_run: true, total: results.length, planned: count('planned'), invalid: count('invalid'), failed: count('failed'), results, requests: dryRun.requests }
+            : { total: results.length, created: count('created'), invalid: count('invalid'), failed: count('failed'), results };
+
           return {
-            content: [{ type: 'text' as const, text: JSON.stringify(profiles, null, 2) }]
+            content: [{ type: 'text' as const, text: JSON.stringify(summary, null, 2) }]
           };
         } catch (error) {
-          return this.handleError(error, 'Failed to list shipping profiles.');
+          return this.handleError(error);
         }
       }
     );
 
-    // Create Shop Shipping Profile Tool
-    const createShopShippingProfileSchema = z.object({
+    // Export Listings Tool
+    const exportListingsSchema = z.object({
       shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
-      title: z.string().describe("A title for the shipping profile (e.g., 'US Standard', 'EU Express')."),
-      origin_country_iso: z.string().length(2).describe("The ISO code of the country from which the listing ships (e.g., 'US', 'GB')."),
-      primary_cost: z.number().min(0).describe("The cost of shipping to this destination alone."),
-      secondary_cost: z.number().min(0).describe("The cost of shipping to this destination with another item."),
-      min_processing_time: z.number().int().min(1).describe("Minimum time (in days) to process the order."),
-      max_processing_time: z.number().int().min(1).describe("Maximum time (in days) to process the order."),
-      destination_country_iso: z.string().length(2).optional().describe("ISO code for a specific destination country (e.g., 'US', 'CA'). Use either this or destination_region."),
-      destination_region: z.enum(["eu", "non_eu", "none"]).optional().describe("A specific destination region ('eu', 'non_eu', 'none'). Use either this or destination_country_iso.")
-      // Note: Etsy API might have more fields like currency, handling fees etc. This is a basic set.
-    }).refine(data => !!data.destination_country_iso !== !!data.destination_region, {
-      message: "Either destination_country_iso OR destination_region must be provided, but not both.",
-      path: ["destination_country_iso"], // Or path: ["destination_region"]
+      states: z.array(z.enum(["active", "draft", "inactive", "expired", "sold_out"])).optional().describe("Listing states to export. Defaults to active, draft, inactive and expired."),
+      include_inventory: z.boolean().optional().describe("Include per-variation SKU, price and quantity. Defaults to false."),
+      include_images: z.boolean().optional().describe("Include image URLs. Defaults to false."),
+      include_shipping: z.boolean().optional().describe("Include the shipping profile of each listing. Defaults to false."),
+      format: z.enum(["csv", "json"]).optional().describe("csv writes one flattened row per listing; json writes the full listing objects. Defaults to csv."),
+      file_name: z.string().optional().describe("Name of the file written to the export directory. Defaults to listings_<shop>_<date>.<format>.")
     });
-
-    this.server.tool(
-      'create_shop_shipping_profile',
-      'Creates a new shipping profile for a shop.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
-      createShopShippingProfileSchema.shape,
-      async (args: z.infer<typeof createShopShippingProfileSchema>, extra: unknown) => {
+    this.registerTool(
+      'export_listings',
+      'Exports the full catalog (all pages of every requested state) to a CSV or JSON file in the export directory (ETSY_EXPORT_DIR) and returns a summary and the file path instead of the listings themselves.',
+      exportListingsSchema.shape,
+      async (args: z.infer<typeof exportListingsSchema>, extra: unknown) => {
         try {
           const accessToken = await this.getValidAccessToken();
           if (!accessToken) {
-            return this.handleError(new Error('Authentication required.'));
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
           }
 
-          let shopIdToUse = args.shop_id;
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'export_listings');
           if (!shopIdToUse) {
-            const storedTokens = this.tokenStorage.getTokens();
-            if (storedTokens?.shop_id) {
-              shopIdToUse = storedTokens.shop_id;
-            } else {
-              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
-            }
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
           }
-          
-          type ProfileDataKeys = 'title' | 'origin_country_iso' | 'primary_cost' | 'secondary_cost' | 'min_processing_time' | 'max_processing_time' | 'destination_country_iso' | 'destination_region';
-          const profileData: Record<ProfileDataKeys, string | number | undefined> = {
-            title: args.title,
-            origin_country_iso: args.origin_country_iso,
-            primary_cost: args.primary_cost.toString(), // Etsy API expects costs as strings
-            secondary_cost: args.secondary_cost.toString(), // Etsy API expects costs as strings
-            min_processing_time: args.min_processing_time,
-            max_processing_time: args.max_processing_time,
-            destination_country_iso: args.destination_country_iso,
-            destination_region: args.destination_region
-          };
 
-          // Remove undefined optional fields so they are not sent as null
-          (Object.keys(profileData) as Array<ProfileDataKeys>).forEach(key => {
-            if (profileData[key] === undefined) {
-              delete profileData[key];
-            }
-          });
+          const includes = [
+            ...(args.include_inventory ? ['Inventory'] : []),
+            ...(args.include_images ? ['Images'] : []),
+            ...(args.include_shipping ? ['Shipping'] : [])
+          ];
+          const states = args.states || ['active', 'draft', 'inactive', 'expired'];
+
+          const listings: Listing[] = [];
+          const countsByState: Record<string, number> = {};
+          for (const state of states) {
+            const page = await etsyApi.getShopListingsByState(shopIdToUse.toString(), state, accessToken, includes);
+            countsByState[state] = page.results.length;
+            listings.push(...page.results);
+          }
+
+          const format = args.format || 'csv';
+          const fileName = args.file_name || `listings_${shopIdToUse}_${new Date().toISOString().slice(0, 10)}.${format}`;
+          const contents = format === 'csv'
+            ? toCsv(listings.map(flattenListing), LISTING_EXPORT_COLUMNS)
+            : JSON.stringify(listings, null, 2);
+          const filePath = writeExportFile(fileName, contents);
 
-          const newProfile = await etsyApi.createShopShippingProfile(shopIdToUse.toString(), profileData, accessToken);
           return {
-            content: [{ type: 'text' as const, text: JSON.stringify(newProfile, null, 2) }]
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ file_path: filePath, total_listings: listings.length, by_state: countsByState, includes }, null, 2)
+            }]
           };
         } catch (error) {
-          return this.handleError(error, 'Failed to create shipping profile.');
+          return this.handleError(error);
         }
       }
     );
 
-    // --- Image Upload Tool ---
-    const uploadListingImageSchema = z.object({
-      shop_id: z.number().optional().describe("Shop ID. Uses default if not provided."),
-      listing_id: z.number().int().describe("The ID of the listing to add the image to."),
-      file_name: z.string().describe("The name of the image file (e.g., 'my_image.jpg') to be sourced based on server configuration."),
-      image_name: z.string().optional().describe("The desired filename for the image on Etsy (e.g., 'etsy_image_name.jpg'). Defaults to file_name if not provided.")
+    // --- Listing Maintenance Tools ---
+
+    // Get Listing Tool
+    const getListingSchema = z.object({
+      listing_id: z.number().int().describe("The ID of the listing."),
+      includes: z.array(z.enum(["Shipping", "Images", "Shop", "User", "Translations", "Inventory", "Videos"])).optional().describe("Associated resources to include in the response.")
     });
+    this.registerTool(
+      'get_listing',
+      'Gets a single listing by ID, optionally including images, inventory, shipping and other associations.',
+      getListingSchema.shape,
+      async (args: z.infer<typeof getListingSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
 
-    this.server.tool(
-      'upload_listing_image',
-      'Uploads an image from a configured server directory and associates it with an Etsy listing.',
-      // @ts-ignore - SDK types seem incompatible with Zod schema/shape
-      uploadListingImageSchema.shape,
-      async (args: z.infer<typeof uploadListingImageSchema>, extra: unknown) => {
+          const listing = await etsyApi.getListing(args.listing_id.toString(), accessToken, args.includes);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(listing, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Update Listing Tool
+    const updateListingSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      listing_id: z.number().int().describe("The ID of the listing to update."),
+      listing_data: z.object({
+        title: z.string().optional(),
+        description: z.string().optional(),
+        price: z.number().positive().optional().describe("New price for every offering. Only allowed for listings without per-variation prices."),
+        quantity: z.number().int().min(0).optional().describe("New quantity for every offering. Only allowed for listings without per-variation quantities."),
+        tags: z.array(z.string()).max(13).optional().describe("Replaces all tags (max 13)."),
+        materials: z.array(z.string()).optional().describe("Replaces all materials."),
+        who_made: z.enum(["i_did", "someone_else", "collective"]).optional(),
+        when_made: z.string().optional().describe("e.g., 'made_to_order', '2020_2024', '1950_1959'"),
+        taxonomy_id: z.number().int().optional(),
+        type: z.enum(["physical", "download", "both"]).optional(),
+        state: z.enum(["active", "inactive", "draft"]).optional().describe("Listing state. Activating a listing may incur a listing fee."),
+        should_auto_renew: z.boolean().optional(),
+        shipping_profile_id: z.number().int().optional(),
+        return_policy_id: z.number().int().optional(),
+        shop_section_id: z.number().int().optional(),
+        image_ids: z.array(z.number().int()).optional().describe("Reorders/replaces the listing's images by image ID."),
+        is_taxable: z.boolean().optional(),
+        is_supply: z.boolean().optional(),
+        is_personalizable: z.boolean().optional(),
+        personalization_is_required: z.boolean().optional(),
+        personalization_char_count_max: z.number().int().optional(),
+        personalization_instructions: z.string().optional(),
+        item_weight: z.number().min(0).optional(),
+        item_weight_unit: z.enum(["oz", "lb", "g", "kg"]).optional(),
+        item_length: z.number().min(0).optional(),
+        item_width: z.number().min(0).optional(),
+        item_height: z.number().min(0).optional(),
+        item_dimensions_unit: z.enum(["in", "ft", "mm", "cm", "m", "yd", "inches"]).optional(),
+        featured_rank: z.number().int().optional(),
+        production_partner_ids: z.array(z.number().int()).optional()
+      }).refine(data => Object.values(data).some(value => value !== undefined), {
+        message: "Provide at least one field to update."
+      })
+    });
+    this.registerTool(
+      'update_listing',
+      'Updates fields of an existing listing. Only the provided fields are changed. Price and quantity are applied through the listing inventory.',
+      updateListingSchema.shape,
+      async (args: z.infer<typeof updateListingSchema>, extra: unknown) => {
         try {
           const accessToken = await this.getValidAccessToken();
           if (!accessToken) {
-            return this.handleError(new Error('Authentication required.'));
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
           }
 
-          let shopIdToUse = args.shop_id;
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'update_listing');
           if (!shopIdToUse) {
-            const storedTokens = this.tokenStorage.getTokens();
-            if (storedTokens?.shop_id) {
-              shopIdToUse = storedTokens.shop_id;
-            } else {
-              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
-            }
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
           }
 
-          // Construct the full path to the local image file
-          // Get the directory of the current module (mcpServer.ts)
-          const __filename = fileURLToPath(import.meta.url);
-          const __dirname = path.dirname(__filename);
-          // Navigate up to the project root (assuming mcpServer.ts is in src/services/)
-          // and then to the public/uploads/listing_images directory.
-          // const projectRootDir = path.resolve(__dirname, '..', '..'); 
-          // const localImageDir = path.join(projectRootDir, 'public', 'uploads', 'listing_images');
-          // const localImageFilePath = path.join(localImageDir, args.file_name);
+          const { price, quantity, ...fields } = args.listing_data;
+          const listingId = args.listing_id.toString();
 
-          const imageSourceDir = process.env.ETSY_IMAGE_SOURCE_DIR;
-          if (!imageSourceDir) {
-            logger.error('[upload_listing_image] ETSY_IMAGE_SOURCE_DIR environment variable is not set.', new Error('ETSY_IMAGE_SOURCE_DIR not set'));
-            return this.handleError(new Error('Image source directory is not configured in the server environment.'), 'Failed to upload listing image.');
-          }
-          const localImageFilePath = path.join(imageSourceDir, args.file_name);
+          type ListingFieldKeys = keyof typeof fields;
+          // Remove undefined optional fields so they are not sent as null
+          (Object.keys(fields) as Array<ListingFieldKeys>).forEach(key => {
+            if (fields[key] === undefined) {
+              delete fields[key];
+            }
+          });
 
-          logger.log(`[upload_listing_image] Constructed image path: ${localImageFilePath}`);
+          const result: Record<string, unknown> = {};
 
-          const imageNameOnEtsy = args.image_name || args.file_name; // Use provided name or fallback to original filename
+          if (price !== undefined || quantity !== undefined) {
+            const inventory = await etsyApi.getListingInventory(listingId, accessToken);
+            if (price !== undefined && inventory.price_on_property.length > 0) {
+              return this.handleError(new Error('This listing has per-variation prices. Update the listing inventory instead of setting a single price.'));
+            }
+            if (quantity !== undefined && inventory.quantity_on_property.length > 0) {
+              return this.handleError(new Error('This listing has per-variation quantities. Update the listing inventory instead of setting a single quantity.'));
+            }
+
+            const inventoryData = toInventoryUpdatePayload(inventory);
+            inventoryData.products.forEach((product: InventoryProduct) => {
+              product.offerings.forEach(offering => {
+                if (price !== undefined) offering.price = price;
+                if (quantity !== undefined) offering.quantity = quantity;
+              });
+            });
+            result.inventory = await etsyApi.updateListingInventory(listingId, inventoryData, accessToken);
+          }
+
+          if (Object.keys(fields).length > 0) {
+            result.listing = await etsyApi.updateListing(shopIdToUse.toString(), listingId, fields, accessToken);
+          }
 
-          // ... rest of the function ...
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
         } catch (error) {
           return this.handleError(error);
         }
       }
     );
-  }
-
-  private async getValidAccessToken(): Promise<string | null> {
-    let tokens = this.tokenStorage.getTokens();
 
-    // If TokenStorage.getTokens() returns a token, it's considered valid (non-expired)
-    // based on its internal logic (which might check expires_at).
-    if (tokens?.access_token) {
-        return tokens.access_token;
-    }
+    // Delete Listing Tool
+    const deleteListingSchema = z.object({
+      listing_id: z.number().int().describe("The ID of the listing to delete. This cannot be undone.")
+    });
+    this.registerTool(
+      'delete_listing',
+      'Permanently deletes a listing. Requires the listings_d scope.',
+      deleteListingSchema.shape,
+      async (args: z.infer<typeof deleteListingSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
 
-    // If no valid token from getTokens(), try to load even if potentially expired to use refresh_token
-    const potentiallyExpiredTokens = this.tokenStorage.loadPotentiallyExpiredTokens();
-    if (potentiallyExpiredTokens?.refresh_token) {
-        logger.log('Access token expired or missing, attempting refresh...');
-        try {
-            const refreshedTokensResponse = await etsyApi.refreshToken(potentiallyExpiredTokens.refresh_token);
-            
-            // Preserve user_id, shop_id, and shop_name from the old tokens
-            const user_id = potentiallyExpiredTokens.user_id;
-            const shop_id = potentiallyExpiredTokens.shop_id;
-            const shop_name = potentiallyExpiredTokens.shop_name;
-
-            await this.tokenStorage.saveTokens({
-                access_token: refreshedTokensResponse.access_token,
-                refresh_token: refreshedTokensResponse.refresh_token, // Etsy usually sends back a new refresh token
-                expires_at: Date.now() + (refreshedTokensResponse.expires_in * 1000),
-                user_id: user_id, // Preserve
-                shop_id: shop_id, // Preserve
-                shop_name: shop_name // Preserve
-            });
-            etsyApi.setAccessToken(refreshedTokensResponse.access_token);
-            logger.log('Token refresh successful.');
-            return refreshedTokensResponse.access_token;
-        } catch (refreshError) {
-            logger.error('Token refresh failed:', refreshError);
-            this.tokenStorage.clearTokens(); // Clear invalid tokens
-            return null; // Refresh failed
+          await etsyApi.deleteListing(args.listing_id.toString(), accessToken);
+          return {
+            content: [{ type: 'text' as const, text: `Listing ${args.listing_id} deleted.` }]
+          };
+        } catch (error) {
+          return this.handleError(error);
         }
-    }
-    
-    // No valid token and no refresh token available
-    return null;
-  }
+      }
+    );
 
-  private handleError(error: unknown, customMessage?: string) {
-    const errorMessage = customMessage || (error instanceof Error ? error.message : String(error));
-    // Ensure the second argument to logger.error is an Error object or undefined/similar
-    const errorForLogging = error instanceof Error ? error : new Error(String(error));
-    logger.error(`MCP Tool Error: ${errorMessage}`, errorForLogging);
-    return {
-      content: [{ type: 'text' as const, text: `Error: ${errorMessage}` }],
+    // --- Listing State Tools ---
+
+    const listingStateSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      listing_id: z.number().int().describe("The ID of the listing.")
+    });
+    const publishListingSchema = listingStateSchema.extend({
+      check_only: z.boolean().optional().describe("Only run the readiness check without changing the listing state.")
+    });
+
+    // Runs the readiness check (unless skipped) and then moves the listing to the target state
+    const changeListingState = async (
+      args: { shop_id?: number; listing_id: number; check_only?: boolean },
+      targetState: 'active' | 'inactive',
+      allowedStates: string[],
+      toolName: string
+    ) => {
+      const accessToken = await this.getValidAccessToken();
+      if (!accessToken) {
+        return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+      }
+
+      const shopIdToUse = this.resolveShopId(args.shop_id, toolName);
+      if (!shopIdToUse) {
+        return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+      }
+
+      const listing = await etsyApi.getListing(args.listing_id.toString(), accessToken, ['Images']);
+      if (!allowedStates.includes(listing.state)) {
+        return this.handleError(new Error(`Listing ${args.listing_id} is '${listing.state}'; ${toolName} only applies to listings that are ${allowedStates.map(state => `'${state}'`).join(' or ')}.`));
+      }
+
+      if (targetState === 'active') {
+        const missing = checkListingReadiness(listing);
+        if (missing.length > 0 || args.check_only) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: missing.length > 0
+                ? `Listing ${args.listing_id} is not ready to be activated:\n- ${missing.join('\n- ')}`
+                : `Listing ${args.listing_id} is ready to be activated.`
+            }],
+            isError: missing.length > 0
+          };
+        }
+      }
+
+      const updatedListing = await etsyApi.updateListing(shopIdToUse.toString(), args.listing_id.toString(), { state: targetState }, accessToken);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Listing ${args.listing_id} changed from '${listing.state}' to '${updatedListing.state ?? targetState}'.`
+        }]
+      };
+    };
+
+    // Publish Listing Tool
+    this.registerTool(
+      'publish_listing',
+      'Publishes a draft listing (draft -> active) after checking that it has images, tags, a valid price and quantity, a category and, for physical items, a shipping profile. Reports exactly what is missing instead of publishing. Publishing may incur an Etsy listing fee.',
+      publishListingSchema.shape,
+      async (args: z.infer<typeof publishListingSchema>, extra: unknown) => {
+        try {
+          return await changeListingState(args, 'active', ['draft'], 'publish_listing');
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Deactivate Listing Tool
+    this.registerTool(
+      'deactivate_listing',
+      'Deactivates an active listing (active -> inactive) so it is no longer visible to buyers.',
+      listingStateSchema.shape,
+      async (args: z.infer<typeof listingStateSchema>, extra: unknown) => {
+        try {
+          return await changeListingState(args, 'inactive', ['active'], 'deactivate_listing');
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Reactivate Listing Tool
+    this.registerTool(
+      'reactivate_listing',
+      'Reactivates an inactive or expired listing (-> active) after the same readiness check as publish_listing. Reactivating may incur an Etsy listing fee.',
+      publishListingSchema.shape,
+      async (args: z.infer<typeof publishListingSchema>, extra: unknown) => {
+        try {
+          return await changeListingState(args, 'active', ['inactive', 'expired'], 'reactivate_listing');
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Inventory Tools ---
+
+    // Get Listing Inventory Tool
+    const getListingInventorySchema = z.object({
+      listing_id: z.number().int().describe("The ID of the listing."),
+      raw: z.boolean().optional().describe("Return Etsy's raw inventory response instead of one summarized row per variation.")
+    });
+    this.registerTool(
+      'get_listing_inventory',
+      'Gets the inventory of a listing: one row per variation (product) with its properties, SKU, price and quantity.',
+      getListingInventorySchema.shape,
+      async (args: z.infer<typeof getListingInventorySchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const inventory = await etsyApi.getListingInventory(args.listing_id.toString(), accessToken);
+          const result = args.raw ? inventory : {
+            products: summarizeInventory(inventory),
+            price_on_property: inventory.price_on_property,
+            quantity_on_property: inventory.quantity_on_property,
+            sku_on_property: inventory.sku_on_property
+          };
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Update Listing Inventory Tool
+    const variationSchema = z.object({
+      properties: z.record(z.string()).describe("Variation property values by property name, e.g. { \"Size\": \"XL\", \"Color\": \"Red\" }. Use {} for a listing without variations."),
+      price: z.number().positive().optional().describe("Price for this variation. Required for new variations unless the listing already has a price."),
+      quantity: z.number().int().min(0).optional().describe("Stock for this variation. Defaults to 0 for new variations."),
+      sku: z.string().optional(),
+      is_enabled: z.boolean().optional().describe("Whether this variation can be purchased. Defaults to true for new variations.")
+    });
+    const updateListingInventorySchema = z.object({
+      listing_id: z.number().int().describe("The ID of the listing."),
+      variations: z.array(variationSchema).optional().describe("Variations to add or update. Existing variations are matched by their property values (case-insensitive)."),
+      remove: z.array(z.record(z.string())).optional().describe("Property value maps of variations to remove, e.g. [{ \"Size\": \"XS\" }]."),
+      replace: z.boolean().optional().describe("If true, the given variations become the complete inventory instead of being merged into it."),
+      property_ids: z.record(z.number().int()).optional().describe("Etsy property IDs by property name, for standard properties not yet on the listing. New names otherwise use Etsy's custom variation properties."),
+      price_on_property: z.array(z.number().int()).optional().describe("Property IDs that price varies on. Inferred from the variations if omitted."),
+      quantity_on_property: z.array(z.number().int()).optional().describe("Property IDs that quantity varies on. Inferred from the variations if omitted."),
+      sku_on_property: z.array(z.number().int()).optional().describe("Property IDs that SKU varies on. Inferred from the variations if omitted.")
+    }).refine(data => (data.variations?.length || 0) + (data.remove?.length || 0) > 0, {
+      message: "Provide variations to add/update or variations to remove.",
+      path: ["variations"]
+    });
+    this.registerTool(
+      'update_listing_inventory',
+      'Adds, updates or removes listing variations (e.g. "add size XL at 30 with 5 in stock") with per-variation SKU, price and quantity. The current inventory is fetched and merged, so only the described variations change.',
+      updateListingInventorySchema,
+      async (args: z.infer<typeof updateListingInventorySchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const listingId = args.listing_id.toString();
+          const currentInventory = await etsyApi.getListingInventory(listingId, accessToken);
+          const inventoryData = applyInventoryChanges(toInventoryUpdatePayload(currentInventory), {
+            variations: args.variations,
+            remove: args.remove,
+            replace: args.replace,
+            property_ids: args.property_ids,
+            price_on_property: args.price_on_property,
+            quantity_on_property: args.quantity_on_property,
+            sku_on_property: args.sku_on_property
+          });
+
+          const updatedInventory = await etsyApi.updateListingInventory(listingId, inventoryData, accessToken);
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({
+                products: summarizeInventory(updatedInventory),
+                price_on_property: updatedInventory.price_on_property,
+                quantity_on_property: updatedInventory.quantity_on_property,
+                sku_on_property: updatedInventory.sku_on_property
+              }, null, 2)
+            }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Order (Receipt) Tools ---
+
+    // List Receipts Tool
+    const listReceiptsSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      was_paid: z.boolean().optional().describe("Only paid (true) or unpaid (false) orders."),
+      was_shipped: z.boolean().optional().describe("Only shipped (true) or unshipped (false) orders."),
+      was_delivered: z.boolean().optional(),
+      was_canceled: z.boolean().optional(),
+      min_created: z.string().optional().describe("Only orders created on or after this ISO 8601 date, e.g. '2024-01-01'."),
+      max_created: z.string().optional().describe("Only orders created on or before this ISO 8601 date. A date without a time includes that whole day."),
+      sort_on: z.enum(["created", "updated", "receipt_id"]).optional(),
+      sort_order: z.enum(["asc", "desc"]).optional(),
+      max_results: z.number().int().min(1).max(1000).optional().describe("Maximum number of orders to return across all pages. Defaults to 100."),
+      summary: z.boolean().optional().describe("Return a compact summary per order (default true). Set false for full receipt objects.")
+    });
+    this.registerTool(
+      'list_receipts',
+      'Lists shop orders (receipts) with filters such as paid/shipped status and creation date range. Pages through results automatically. Requires the transactions_r scope.',
+      listReceiptsSchema.shape,
+      async (args: z.infer<typeof listReceiptsSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'list_receipts');
+          if (!shopIdToUse) {
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+          }
+
+          const receipts = await etsyApi.getShopReceipts(shopIdToUse.toString(), {
+            was_paid: args.was_paid,
+            was_shipped: args.was_shipped,
+            was_delivered: args.was_delivered,
+            was_canceled: args.was_canceled,
+            min_created: args.min_created ? toEpochSeconds(args.min_created) : undefined,
+            max_created: args.max_created ? toEndEpochSeconds(args.max_created) : undefined,
+            sort_on: args.sort_on,
+            sort_order: args.sort_order
+          }, accessToken, args.max_results ?? 100);
+
+          const result = {
+            count: receipts.count,
+            returned: receipts.results.length,
+            results: args.summary === false ? receipts.results : receipts.results.map(summarizeReceipt)
+          };
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Get Receipt Tool
+    const getReceiptSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      receipt_id: z.number().int().describe("The ID of the receipt (order)."),
+      include_transactions: z.boolean().optional().describe("Also fetch the receipt's transactions (line items) separately. Defaults to false.")
+    });
+    this.registerTool(
+      'get_receipt',
+      'Gets a single order (receipt) with its line items, shipping address, payment and shipment details. Requires the transactions_r scope.',
+      getReceiptSchema.shape,
+      async (args: z.infer<typeof getReceiptSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'get_receipt');
+          if (!shopIdToUse) {
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+          }
+
+          const receipt = await etsyApi.getShopReceipt(shopIdToUse.toString(), args.receipt_id.toString(), accessToken);
+          if (args.include_transactions) {
+            const transactions = await etsyApi.getShopReceiptTransactions(shopIdToUse.toString(), args.receipt_id.toString(), accessToken);
+            receipt.transactions = transactions.results;
+          }
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(receipt, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Shipment Tools ---
+
+    const shipmentFields = {
+      tracking_code: z.string().min(1).describe("The tracking number from the carrier."),
+      carrier_name: z.string().min(1).describe("The carrier name, e.g. 'usps', 'ups', 'fedex', 'dhl', 'royal-mail'."),
+      note_to_buyer: z.string().optional().describe("Optional message included in the shipping notification to the buyer."),
+      send_bcc: z.boolean().optional().describe("If true, a copy of the shipping notification is sent to the seller.")
+    };
+
+    // Create Receipt Shipment Tool
+    const createReceiptShipmentSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      receipt_id: z.number().int().describe("The ID of the receipt (order) to mark as shipped."),
+      ...shipmentFields
+    });
+    this.registerTool(
+      'create_receipt_shipment',
+      'Marks an order as shipped with a carrier and tracking number and notifies the buyer. Requires the transactions_w scope.',
+      createReceiptShipmentSchema.shape,
+      async (args: z.infer<typeof createReceiptShipmentSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'create_receipt_shipment');
+          if (!shopIdToUse) {
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+          }
+
+          const { shop_id, receipt_id, ...shipmentData } = args;
+          const receipt = await etsyApi.createReceiptShipment(shopIdToUse.toString(), receipt_id.toString(), shipmentData, accessToken);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(receipt, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Batch Create Receipt Shipments Tool
+    const createReceiptShipmentsBatchSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      shipments: z.array(z.object({
+        receipt_id: z.number().int(),
+        ...shipmentFields
+      })).min(1).max(200).describe("One entry per receipt to mark as shipped."),
+      concurrency: z.number().int().min(1).max(10).optional().describe("Maximum number of shipments submitted in parallel. Defaults to 3.")
+    });
+    this.registerTool(
+      'create_receipt_shipments_batch',
+      'Marks many orders as shipped with tracking numbers. Runs with bounded concurrency and reports success or failure per receipt. Requires the transactions_w scope.',
+      createReceiptShipmentsBatchSchema.shape,
+      async (args: z.infer<typeof createReceiptShipmentsBatchSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'create_receipt_shipments_batch');
+          if (!shopIdToUse) {
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+          }
+
+          const settled = await mapWithConcurrency(args.shipments, args.concurrency ?? 3, ({ receipt_id, ...shipmentData }) =>
+            etsyApi.createReceiptShipment(shopIdToUse.toString(), receipt_id.toString(), shipmentData, accessToken)
+          );
+
+          const results = settled.map((outcome, index) => {
+            const { receipt_id, tracking_code } = args.shipments[index];
+            return outcome.status === 'fulfilled'
+              ? { receipt_id, tracking_code, success: true }
+              : { receipt_id, tracking_code, success: false, error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) };
+          });
+          const succeeded = results.filter(result => result.success).length;
+
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ succeeded, failed: results.length - succeeded, results }, null, 2)
+            }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Accounting Tools ---
+
+    // Export Payment Ledger Tool
+    const exportPaymentLedgerSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      min_created: z.string().describe("Start of the date range (ISO 8601), e.g. '2024-01-01'."),
+      max_created: z.string().describe("End of the date range (ISO 8601), e.g. '2024-01-31'. A date without a time includes that whole day."),
+      format: z.enum(["csv", "json"]).optional().describe("Output file format. Defaults to csv."),
+      include_payments: z.boolean().optional().describe("Look up the payment behind each payment ledger entry and add receipt_id and gross/fees/net columns. Defaults to true."),
+      file_name: z.string().optional().describe("Name of the file written to the export directory. Defaults to ledger_<shop>_<start>_<end>.<format>.")
+    });
+    this.registerTool(
+      'export_payment_ledger',
+      'Exports payment account ledger entries for a date range to a CSV or JSON file in the configured export directory (ETSY_EXPORT_DIR), with normalized date, type, description, amount, currency, fee category and balance columns.',
+      exportPaymentLedgerSchema.shape,
+      async (args: z.infer<typeof exportPaymentLedgerSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const shopIdToUse = this.resolveShopId(args.shop_id, 'export_payment_ledger');
+          if (!shopIdToUse) {
+            return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+          }
+
+          const minCreated = toEpochSeconds(args.min_created);
+          const maxCreated = toEndEpochSeconds(args.max_created);
+          const ledger = await etsyApi.getPaymentAccountLedgerEntries(shopIdToUse.toString(), minCreated, maxCreated, accessToken);
+
+          const paymentsById = new Map<number, Payment>();
+          if (args.include_payments !== false) {
+            const paymentIds = Array.from(new Set(ledger.results
+              .filter(entry => entry.reference_type === 'payment' && entry.reference_id)
+              .map(entry => Number(entry.reference_id))));
+            // The payments endpoint accepts up to 100 IDs per call
+            for (let i = 0; i < paymentIds.length; i += 100) {
+              const payments = await etsyApi.getPayments(shopIdToUse.toString(), paymentIds.slice(i, i + 100), accessToken);
+              payments.results.forEach(payment => paymentsById.set(payment.payment_id, payment));
+            }
+          }
+
+          const rows = ledger.results.map(entry => normalizeLedgerEntry(
+            entry,
+            entry.reference_type === 'payment' ? paymentsById.get(Number(entry.reference_id)) : undefined
+          ));
+
+          const format = args.format || 'csv';
+          const startDate = new Date(minCreated * 1000).toISOString().slice(0, 10);
+          const endDate = new Date(maxCreated * 1000).toISOString().slice(0, 10);
+          const fileName = args.file_name || `ledger_${shopIdToUse}_${startDate}_${endDate}.${format}`;
+          const filePath = writeExportFile(fileName, format === 'csv' ? toCsv(rows, LEDGER_COLUMNS) : JSON.stringify(rows, null, 2));
+
+          const totalsByCategory: Record<string, number> = {};
+          rows.forEach(row => {
+            totalsByCategory[row.fee_category] = Math.round(((totalsByCategory[row.fee_category] || 0) + (row.amount || 0)) * 100) / 100;
+          });
+
+          return {
+            content: [{
+              type: 'text' as const,
+              text: JSON.stringify({ file_path: filePath, entries: rows.length, totals_by_category: totalsByCategory }, null, 2)
+            }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Review Tools ---
+
+    // Get Reviews Tool
+    const getReviewsSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      listing_id: z.number().int().optional().describe("Only reviews for this listing. If omitted, all shop reviews are used."),
+      min_created: z.string().optional().describe("Only reviews created on or after this ISO 8601 date, e.g. '2024-01-01'."),
+      max_created: z.string().optional().describe("Only reviews created on or before this ISO 8601 date. A date without a time includes that whole day."),
+      low_rating_threshold: z.number().int().min(1).max(5).optional().describe("Reviews at or below this rating are listed as complaints. Defaults to 3."),
+      max_results: z.number().int().min(1).max(5000).optional().describe("Maximum number of reviews to fetch across pages. Defaults to 1000."),
+      include_reviews: z.boolean().optional().describe("Also return every fetched review, not only the summary and low-rated reviews. Defaults to false.")
+    });
+    this.registerTool(
+      'get_reviews',
+      'Gets shop (or listing) reviews for a date range and summarizes them: average rating, rating distribution, lowest-rated listings and the text of low-rated reviews.',
+      getReviewsSchema.shape,
+      async (args: z.infer<typeof getReviewsSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+
+          const range = {
+            min_created: args.min_created ? toEpochSeconds(args.min_created) : undefined,
+            max_created: args.max_created ? toEndEpochSeconds(args.max_created) : undefined
+          };
+          const maxResults = args.max_results ?? 1000;
+
+          let reviews;
+          if (args.listing_id) {
+            reviews = await etsyApi.getListingReviews(args.listing_id.toString(), range, accessToken, maxResults);
+          } else {
+            const shopIdToUse = this.resolveShopId(args.shop_id, 'get_reviews');
+            if (!shopIdToUse) {
+              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+            }
+            reviews = await etsyApi.getShopReviews(shopIdToUse.toString(), range, accessToken, maxResults);
+          }
+
+          const result = {
+            total_matching: reviews.count,
+            ...summarizeReviews(reviews.results, args.low_rating_threshold ?? 3),
+            reviews: args.include_reviews ? reviews.results : undefined
+          };
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Taxonomy Tools ---
+
+    // Search Taxonomy Tool
+    const searchTaxonomySchema = z.object({
+      query: z.string().min(1).describe("What the product is, e.g. 'ceramic mug' or 'silver ring'."),
+      limit: z.number().int().min(1).max(50).optional().describe("Maximum number of matches. Defaults to 10."),
+      force_refresh: z.boolean().optional().describe("Re-download the taxonomy instead of using the local cache.")
+    });
+    this.registerTool(
+      'search_taxonomy',
+      'Fuzzy-searches the Etsy seller taxonomy for categories matching a product description and returns taxonomy_id values with their full category path. Use this to find the taxonomy_id for create_listing.',
+      searchTaxonomySchema.shape,
+      async (args: z.infer<typeof searchTaxonomySchema>, extra: unknown) => {
+        try {
+          const matches = await taxonomyCache.search(args.query, args.limit ?? 10, args.force_refresh);
+          if (matches.length === 0) {
+            return {
+              content: [{ type: 'text' as const, text: `No taxonomy nodes match "${args.query}". Try a broader term or browse_taxonomy.` }]
+            };
+          }
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(matches, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Browse Taxonomy Tool
+    const browseTaxonomySchema = z.object({
+      taxonomy_id: z.number().int().optional().describe("The node to show. If omitted, the top-level categories are listed."),
+      force_refresh: z.boolean().optional().describe("Re-download the taxonomy instead of using the local cache.")
+    });
+    this.registerTool(
+      'browse_taxonomy',
+      'Browses the Etsy seller taxonomy tree: shows a node with its full path and its child categories, or the top-level categories.',
+      browseTaxonomySchema.shape,
+      async (args: z.infer<typeof browseTaxonomySchema>, extra: unknown) => {
+        try {
+          const nodes = await taxonomyCache.getNodes(args.force_refresh);
+          const childSummary = (ids: number[]) => nodes
+            .filter(node => ids.includes(node.id))
+            .map(node => ({ taxonomy_id: node.id, name: node.name, is_leaf: node.children_ids.length === 0 }));
+
+          let result;
+          if (args.taxonomy_id === undefined) {
+            result = { children: childSummary(nodes.filter(node => node.parent_id === null).map(node => node.id)) };
+          } else {
+            const node = nodes.find(candidate => candidate.id === args.taxonomy_id);
+            if (!node) {
+              return this.handleError(new Error(`Taxonomy node ${args.taxonomy_id} not found.`));
+            }
+            result = {
+              taxonomy_id: node.id,
+              name: node.name,
+              full_path: node.path.join(' > '),
+              parent_id: node.parent_id,
+              children: childSummary(node.children_ids)
+            };
+          }
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Get Taxonomy Properties Tool
+    const getTaxonomyPropertiesSchema = z.object({
+      taxonomy_id: z.number().int().describe("The taxonomy node to get properties for."),
+      force_refresh: z.boolean().optional().describe("Re-download the properties instead of using the local cache.")
+    });
+    this.registerTool(
+      'get_taxonomy_properties',
+      'Gets the properties (e.g. color, size, material) available for a taxonomy node, including property IDs, scales and allowed values. Useful for variations in update_listing_inventory.',
+      getTaxonomyPropertiesSchema.shape,
+      async (args: z.infer<typeof getTaxonomyPropertiesSchema>, extra: unknown) => {
+        try {
+          const properties = await taxonomyCache.getProperties(args.taxonomy_id, args.force_refresh);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(properties, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Diagnostics Tools ---
+
+    // Rate Limit Status Tool
+    const getRateLimitStatusSchema = z.object({});
+    this.registerTool(
+      'get_rate_limit_status',
+      'Shows the current Etsy API quota (per-second and per-day limits and remaining requests, as last reported by Etsy), queued requests and retry statistics.',
+      getRateLimitStatusSchema.shape,
+      async (args: z.infer<typeof getRateLimitStatusSchema>, extra: unknown) => {
+        try {
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(etsyApi.getRateLimitStatus(), null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // Cache Clear Tool
+    const cacheClearSchema = z.object({
+      shop_id: z.number().optional().describe("Only clear cached responses for this shop."),
+      listing_id: z.number().int().optional().describe("Only clear cached responses for this listing.")
+    });
+    this.registerTool(
+      'cache_clear',
+      'Clears cached Etsy GET responses (all, or only those for a shop or listing) so the next calls fetch fresh data. Also reports cache statistics.',
+      cacheClearSchema.shape,
+      async (args: z.infer<typeof cacheClearSchema>, extra: unknown) => {
+        try {
+          const cache = etsyApi.getResponseCache();
+          const tags = [
+            ...(args.shop_id ? [`shop:${args.shop_id}`] : []),
+            ...(args.listing_id ? [`listing:${args.listing_id}`] : [])
+          ];
+          const removed = tags.length > 0
+            ? cache.invalidate(entry => entry.tags.some(tag => tags.includes(tag)))
+            : cache.clear();
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify({ removed, ...cache.getStats() }, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Shipping Profile Tools ---
+
+    // List Shop Shipping Profiles Tool
+    const listShopShippingProfilesSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop.")
+    });
+    this.registerTool(
+      'list_shop_shipping_profiles',
+      'Lists all shipping profiles for a given shop (or the default shop).',
+      listShopShippingProfilesSchema.shape,
+      async (args: z.infer<typeof listShopShippingProfilesSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required.'));
+          }
+
+          let shopIdToUse = args.shop_id;
+          if (!shopIdToUse) {
+            const storedTokens = this.tokenStorage.getTokens();
+            if (storedTokens?.shop_id) {
+              shopIdToUse = storedTokens.shop_id;
+            } else {
+              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+            }
+          }
+
+          const profiles = await etsyApi.getShopShippingProfiles(shopIdToUse.toString(), accessToken);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(profiles, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error, 'Failed to list shipping profiles.');
+        }
+      }
+    );
+
+    // Create Shop Shipping Profile Tool
+    const createShopShippingProfileSchema = z.object({
+      shop_id: z.number().optional().describe("The ID of the shop. If not provided, uses the default shop."),
+      title: z.string().describe("A title for the shipping profile (e.g., 'US Standard', 'EU Express')."),
+      origin_country_iso: z.string().length(2).describe("The ISO code of the country from which the listing ships (e.g., 'US', 'GB')."),
+      primary_cost: z.number().min(0).describe("The cost of shipping to this destination alone."),
+      secondary_cost: z.number().min(0).describe("The cost of shipping to this destination with another item."),
+      min_processing_time: z.number().int().min(1).describe("Minimum time (in days) to process the order."),
+      max_processing_time: z.number().int().min(1).describe("Maximum time (in days) to process the order."),
+      destination_country_iso: z.string().length(2).optional().describe("ISO code for a specific destination country (e.g., 'US', 'CA'). Use either this or destination_region."),
+      destination_region: z.enum(["eu", "non_eu", "none"]).optional().describe("A specific destination region ('eu', 'non_eu', 'none'). Use either this or destination_country_iso.")
+      // Note: Etsy API might have more fields like currency, handling fees etc. This is a basic set.
+    }).refine(data => !!data.destination_country_iso !== !!data.destination_region, {
+      message: "Either destination_country_iso OR destination_region must be provided, but not both.",
+      path: ["destination_country_iso"], // Or path: ["destination_region"]
+    });
+
+    this.registerTool(
+      'create_shop_shipping_profile',
+      'Creates a new shipping profile for a shop.',
+      createShopShippingProfileSchema,
+      async (args: z.infer<typeof createShopShippingProfileSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required.'));
+          }
+
+          let shopIdToUse = args.shop_id;
+          if (!shopIdToUse) {
+            const storedTokens = this.tokenStorage.getTokens();
+            if (storedTokens?.shop_id) {
+              shopIdToUse = storedTokens.shop_id;
+            } else {
+              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+            }
+          }
+          
+          type ProfileDataKeys = 'title' | 'origin_country_iso' | 'primary_cost' | 'secondary_cost' | 'min_processing_time' | 'max_processing_time' | 'destination_country_iso' | 'destination_region';
+          const profileData: Record<ProfileDataKeys, string | number | undefined> = {
+            title: args.title,
+            origin_country_iso: args.origin_country_iso,
+            primary_cost: args.primary_cost.toString(), // Etsy API expects costs as strings
+            secondary_cost: args.secondary_cost.toString(), // Etsy API expects costs as strings
+            min_processing_time: args.min_processing_time,
+            max_processing_time: args.max_processing_time,
+            destination_country_iso: args.destination_country_iso,
+            destination_region: args.destination_region
+          };
+
+          // Remove undefined optional fields so they are not sent as null
+          (Object.keys(profileData) as Array<ProfileDataKeys>).forEach(key => {
+            if (profileData[key] === undefined) {
+              delete profileData[key];
+            }
+          });
+
+          const newProfile = await etsyApi.createShopShippingProfile(shopIdToUse.toString(), profileData, accessToken);
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(newProfile, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error, 'Failed to create shipping profile.');
+        }
+      }
+    );
+
+    // --- Image Upload Tool ---
+    const uploadListingImageSchema = z.object({
+      shop_id: z.number().optional().describe("Shop ID. Uses default if not provided."),
+      listing_id: z.number().int().describe("The ID of the listing to add the image to."),
+      file_name: z.string().describe("The name of the image file (e.g., 'my_image.jpg') to be sourced based on server configuration."),
+      image_name: z.string().optional().describe("The desired filename for the image on Etsy (e.g., 'etsy_image_name.jpg'). Defaults to file_name if not provided.")
+    });
+
+    this.registerTool(
+      'upload_listing_image',
+      'Uploads an image from a configured server directory and associates it with an Etsy listing.',
+      uploadListingImageSchema.shape,
+      async (args: z.infer<typeof uploadListingImageSchema>, extra: unknown) => {
+        try {
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required.'));
+          }
+
+          let shopIdToUse = args.shop_id;
+          if (!shopIdToUse) {
+            const storedTokens = this.tokenStorage.getTokens();
+            if (storedTokens?.shop_id) {
+              shopIdToUse = storedTokens.shop_id;
+            } else {
+              return this.handleError(new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.'));
+            }
+          }
+
+          // Construct the full path to the local image file
+          // Get the directory of the current module (mcpServer.ts)
+          const __filename = fileURLToPath(import.meta.url);
+          const __dirname = path.dirname(__filename);
+          // Navigate up to the project root (assuming mcpServer.ts is in src/services/)
+          // and then to the public/uploads/listing_images directory.
+          // const projectRootDir = path.resolve(__dirname, '..', '..'); 
+          // const localImageDir = path.join(projectRootDir, 'public', 'uploads', 'listing_images');
+          // const localImageFilePath = path.join(localImageDir, args.file_name);
+
+          const imageSourceDir = process.env.ETSY_IMAGE_SOURCE_DIR;
+          if (!imageSourceDir) {
+            logger.error('[upload_listing_image] ETSY_IMAGE_SOURCE_DIR environment variable is not set.', new Error('ETSY_IMAGE_SOURCE_DIR not set'));
+            return this.handleError(new Error('Image source directory is not configured in the server environment.'), 'Failed to upload listing image.');
+          }
+          const localImageFilePath = path.join(imageSourceDir, args.file_name);
+
+          logger.debug(`[upload_listing_image] Constructed image path: ${localImageFilePath}`);
+
+          const imageNameOnEtsy = args.image_name || args.file_name; // Use provided name or fallback to original filename
+
+          const uploadedImage = await etsyApi.uploadListingImageFromFilePath(
+            shopIdToUse.toString(),
+            args.listing_id.toString(),
+            localImageFilePath,
+            imageNameOnEtsy,
+            accessToken
+          );
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(uploadedImage, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    // --- Audit Tools ---
+
+    const listRecentChangesSchema = z.object({
+      limit: z.number().int().min(1).max(200).optional().describe("Maximum number of changes to return, newest first. Defaults to 20."),
+      listing_id: z.number().int().optional().describe("Only changes to this listing."),
+      tool: z.string().optional().describe("Only changes made by this tool, e.g. 'update_listing'."),
+      include_snapshots: z.boolean().optional().describe("Include request payloads and captured prior states. Defaults to false.")
+    });
+    this.registerTool(
+      'list_recent_changes',
+      'Lists recent changes made to Etsy through this server, newest first, from the audit log: time, tool, profile, shop, endpoint, outcome and whether undo_change can revert them.',
+      listRecentChangesSchema.shape,
+      async (args: z.infer<typeof listRecentChangesSchema>, extra: unknown) => {
+        try {
+          const entries = auditLog.list({ limit: args.limit, listingId: args.listing_id, tool: args.tool });
+          const changes = entries.map(entry => {
+            const { payload, prior_state, ...summary } = entry;
+            return {
+              ...summary,
+              undoable: entry.status === 'succeeded' && prior_state !== undefined && undoKindOf(entry) !== null,
+              ...(args.include_snapshots ? { payload, prior_state } : {})
+            };
+          });
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify({ audit_log: auditLog.filePath, returned: changes.length, changes }, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+
+    const undoChangeSchema = z.object({
+      change_id: z.string().describe("ID of the change to revert (see list_recent_changes)."),
+      force: z.boolean().optional().describe("Revert even if the listing was changed again afterwards. Defaults to false.")
+    });
+    this.registerTool(
+      'undo_change',
+      'Reverts a listing update or inventory update recorded in the audit log by restoring the values captured before it. Refuses when the listing has changed since, unless force is set. Deletions and creations cannot be undone.',
+      undoChangeSchema.shape,
+      async (args: z.infer<typeof undoChangeSchema>, extra: unknown) => {
+        try {
+          const entry = auditLog.find(args.change_id);
+          if (!entry) {
+            return this.handleError(new Error(`No change with ID ${args.change_id} in the audit log. Use list_recent_changes to find it.`));
+          }
+          const kind = undoKindOf(entry);
+          if (!kind) {
+            return this.handleError(new Error(entry.method === 'DELETE'
+              ? `Change ${entry.id} deleted a resource, which Etsy cannot restore. Its prior state is in the audit log (list_recent_changes with include_snapshots).`
+              : `Change ${entry.id} (${entry.method} ${entry.endpoint}) cannot be undone automatically.`));
+          }
+          if (entry.status !== 'succeeded') {
+            return this.handleError(new Error(`Change ${entry.id} failed, so there is nothing to undo.`));
+          }
+          if (entry.prior_state === undefined || entry.listing_id === undefined) {
+            return this.handleError(new Error(`No prior state was captured for change ${entry.id}, so it cannot be undone.`));
+          }
+          const profile = this.tokenStorage.resolveProfile();
+          if (entry.profile !== profile) {
+            return this.handleError(new Error(`Change ${entry.id} was made with profile "${entry.profile}". Run undo_change with profile "${entry.profile}".`));
+          }
+
+          const accessToken = await this.getValidAccessToken();
+          if (!accessToken) {
+            return this.handleError(new Error('Authentication required. Please run the authenticate tool.'));
+          }
+          const listingId = entry.listing_id.toString();
+          // Compare against Etsy's current state, not a cached copy that may predate edits made elsewhere
+          etsyApi.getResponseCache().invalidateForMutation(`/application/listings/${listingId}`);
+
+          let result: Record<string, unknown>;
+          if (kind === 'listing') {
+            const { fields, unrestorable } = listingRestoreFields(entry);
+            if (Object.keys(fields).length === 0) {
+              return this.handleError(new Error(`Change ${entry.id} cannot be undone: Etsy does not accept the prior values of ${unrestorable.join(', ')} (e.g. a listing cannot be moved back to draft). Use deactivate_listing or update_listing instead.`));
+            }
+            const current: Record<string, unknown> = await etsyApi.getListing(listingId, accessToken);
+            const changedSince = Object.keys(fields).filter(field => !isDeepStrictEqual(current[field], (entry.payload as Record<string, unknown>)[field]));
+            if (changedSince.length > 0 && !args.force) {
+              return this.handleError(new Error(`Listing ${listingId} was changed again after ${entry.id} (${changedSince.join(', ')}). Set force to overwrite those changes.`));
+            }
+            await etsyApi.updateListing(String(entry.shop_id), listingId, fields, accessToken);
+            result = { undone: entry.id, listing_id: entry.listing_id, restored: fields, unrestorable };
+          } else {
+            const current = await etsyApi.getListingInventory(listingId, accessToken);
+            if (!isDeepStrictEqual(comparableInventory(current), comparableInventory(entry.payload)) && !args.force) {
+              return this.handleError(new Error(`The inventory of listing ${listingId} was changed again after ${entry.id}. Set force to overwrite those changes.`));
+            }
+            const restored = toInventoryUpdatePayload(entry.prior_state);
+            await etsyApi.updateListingInventory(listingId, restored, accessToken);
+            result = { undone: entry.id, listing_id: entry.listing_id, restored_inventory: summarizeInventory(restored) };
+          }
+
+          if (!getRequestContext().dryRun) {
+            this.notifyResourceChange({ listingId: entry.listing_id });
+          }
+          return {
+            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }]
+          };
+        } catch (error) {
+          return this.handleError(error);
+        }
+      }
+    );
+  }
+
+  // Shop data that clients can attach as context without spending tool calls. Resources always
+  // use the active profile; their list callbacks return nothing until it is authenticated.
+  private setupResources() {
+    this.register(server => server.resource(
+      'shop',
+      new ResourceTemplate(SHOP_RESOURCE_TEMPLATE, {
+        list: () => this.listResources(async () => (await this.getUserShops()).map(shop => ({
+          uri: shopResourceUri(shop.shop_id),
+          name: shop.shop_name,
+          mimeType: 'application/json'
+        })))
+      }),
+      { description: 'Details of an Etsy shop', mimeType: 'application/json' },
+      async (uri, variables) => {
+        const accessToken = await this.requireAccessToken();
+        const shop = await etsyApi.getShopDetails(readIdVariable(variables, 'shop_id').toString(), accessToken);
+        return this.jsonResource(uri, shop);
+      }
+    ));
+
+    this.register(server => server.resource(
+      'listing',
+      new ResourceTemplate(LISTING_RESOURCE_TEMPLATE, {
+        // Active listings of the default shop; other listings can still be read by URI
+        list: () => this.listResources(async () => {
+          const shopId = this.tokenStorage.getTokens()?.shop_id;
+          if (!shopId) {
+            return [];
+          }
+          const listings = await etsyApi.getListings(shopId.toString(), await this.requireAccessToken());
+          return listings.results.map(listing => ({
+            uri: listingResourceUri(shopId, listing.listing_id),
+            name: listing.title,
+            mimeType: 'application/json'
+          }));
+        })
+      }),
+      { description: 'An Etsy listing with its images and inventory', mimeType: 'application/json' },
+      async (uri, variables) => {
+        const accessToken = await this.requireAccessToken();
+        const shopId = readIdVariable(variables, 'shop_id');
+        const listingId = readIdVariable(variables, 'listing_id');
+        const listing = await etsyApi.getListing(listingId.toString(), accessToken, ['Images', 'Inventory']);
+        if (listing.shop_id !== undefined && listing.shop_id !== null && listing.shop_id !== shopId) {
+          throw new Error(`Listing ${listingId} belongs to shop ${listing.shop_id}, not shop ${shopId}.`);
+        }
+        return this.jsonResource(uri, listing);
+      }
+    ));
+
+    this.register(server => server.resource(
+      'shipping-profiles',
+      new ResourceTemplate(SHIPPING_PROFILES_RESOURCE_TEMPLATE, {
+        list: () => this.listResources(async () => (await this.getUserShops()).map(shop => ({
+          uri: shippingProfilesResourceUri(shop.shop_id),
+          name: `${shop.shop_name} shipping profiles`,
+          mimeType: 'application/json'
+        })))
+      }),
+      { description: 'Shipping profiles of an Etsy shop', mimeType: 'application/json' },
+      async (uri, variables) => {
+        const accessToken = await this.requireAccessToken();
+        const profiles = await etsyApi.getShopShippingProfiles(readIdVariable(variables, 'shop_id').toString(), accessToken);
+        return this.jsonResource(uri, profiles.results);
+      }
+    ));
+  }
+
+  // Guided entry points for common seller workflows. Each prompt embeds live shop data in its message.
+  private setupPrompts() {
+    this.registerPrompt(
+      'write_listing_from_notes',
+      'Turn product notes into a complete draft listing, using the shop\'s shipping profiles and matching categories',
+      {
+        notes_file: z.string().optional().describe('Name of a .txt or .md file with product notes in the import directory (ETSY_IMPORT_SOURCE_DIR).'),
+        notes: z.string().optional().describe('Product notes, if not given as a file.'),
+        shop_id: promptIdArgument('The ID of the shop. If not provided, uses the default shop.')
+      },
+      async args => {
+        const notes = args.notes_file ? readNotesFile(args.notes_file) : args.notes;
+        if (!notes?.trim()) {
+          throw new Error('Provide product notes with notes or notes_file.');
+        }
+        const accessToken = await this.requireAccessToken();
+        const shopId = this.requirePromptShopId(args.shop_id, 'write_listing_from_notes');
+        const [shop, shippingProfiles, categories] = await Promise.all([
+          etsyApi.getShopDetails(shopId.toString(), accessToken),
+          etsyApi.getShopShippingProfiles(shopId.toString(), accessToken),
+          // The first line of the notes usually names the product
+          taxonomyCache.search(notes.trim().split('\n')[0].slice(0, 200), 5)
+        ]);
+        return promptResult('Draft a listing from product notes', listingFromNotesPrompt({
+          notes,
+          shop: { shop_id: shop.shop_id, shop_name: shop.shop_name, currency_code: shop.currency_code, title: shop.title },
+          shippingProfiles: shippingProfiles.results.map(profile => ({ shipping_profile_id: profile.shipping_profile_id, title: profile.title })),
+          categories
+        }));
+      }
+    );
+
+    this.registerPrompt(
+      'triage_unshipped_orders',
+      'Prioritize paid orders that have not shipped yet and prepare a packing list',
+      {
+        shop_id: promptIdArgument('The ID of the shop. If not provided, uses the default shop.'),
+        max_orders: z.string().regex(/^\d+$/, 'Must be a number.').optional().describe('Maximum number of orders to include. Defaults to 50.')
+      },
+      async args => {
+        const accessToken = await this.requireAccessToken();
+        const shopId = this.requirePromptShopId(args.shop_id, 'triage_unshipped_orders');
+        const receipts = await etsyApi.getShopReceipts(shopId.toString(), {
+          was_paid: true,
+          was_shipped: false,
+          sort_on: 'created',
+          sort_order: 'asc'
+        }, accessToken, Math.min(Number(args.max_orders ?? 50), 200));
+        return promptResult('Triage unshipped orders', unshippedOrdersPrompt({
+          shopName: this.defaultShopName(shopId),
+          total: receipts.count,
+          orders: receipts.results.map(summarizeReceipt)
+        }));
+      }
+    );
+
+    this.registerPrompt(
+      'audit_listings',
+      'Review the shop\'s listings for missing photos, tags, categories and other fixes',
+      {
+        shop_id: promptIdArgument('The ID of the shop. If not provided, uses the default shop.'),
+        state: z.enum(['active', 'draft', 'inactive', 'expired']).optional().describe('Which listings to audit. Defaults to active.'),
+        max_listings: z.string().regex(/^\d+$/, 'Must be a number.').optional().describe('Maximum number of listings to include. Defaults to 50.')
+      },
+      async args => {
+        const accessToken = await this.requireAccessToken();
+        const shopId = this.requirePromptShopId(args.shop_id, 'audit_listings');
+        const state = args.state ?? 'active';
+        const listings = await etsyApi.getShopListingsByState(shopId.toString(), state, accessToken, ['Images'], Math.min(Number(args.max_listings ?? 50), 200));
+        return promptResult(`Audit ${state} listings`, listingAuditPrompt({
+          shopName: this.defaultShopName(shopId),
+          state,
+          total: listings.count,
+          listings: listings.results.map(listing => ({
+            listing_id: listing.listing_id,
+            title: listing.title,
+            quantity: listing.quantity,
+            price: listing.price ? moneyToNumber(listing.price) : undefined,
+            tags: listing.tags ?? [],
+            image_count: listing.images?.length ?? 0,
+            views: listing.views,
+            problems: checkListingReadiness(listing)
+          }))
+        }));
+      }
+    );
+
+    this.registerPrompt(
+      'respond_to_negative_review',
+      'Draft a public response and a private message for a low-rated review',
+      {
+        shop_id: promptIdArgument('The ID of the shop. If not provided, uses the default shop.'),
+        listing_id: promptIdArgument('Only consider reviews of this listing.'),
+        transaction_id: promptIdArgument('The transaction of the review to respond to. Defaults to the most recent review rated 3 stars or lower.')
+      },
+      async args => {
+        const accessToken = await this.requireAccessToken();
+        const shopId = this.requirePromptShopId(args.shop_id, 'respond_to_negative_review');
+        const reviews = args.listing_id
+          ? await etsyApi.getListingReviews(args.listing_id, {}, accessToken, 200)
+          : await etsyApi.getShopReviews(shopId.toString(), {}, accessToken, 200);
+        const newestFirst = [...reviews.results].sort((a, b) => (b.created_timestamp ?? 0) - (a.created_timestamp ?? 0));
+        const review = args.transaction_id
+          ? newestFirst.find(candidate => String(candidate.transaction_id) === args.transaction_id)
+          : newestFirst.find(candidate => candidate.rating <= 3);
+        if (!review) {
+          throw new Error(args.transaction_id
+            ? `No review found for transaction ${args.transaction_id} among the ${newestFirst.length} most recent reviews.`
+            : `No review rated 3 stars or lower among the ${newestFirst.length} most recent reviews.`);
+        }
+        const listing = review.listing_id
+          ? await etsyApi.getListing(review.listing_id.toString(), accessToken).catch(() => undefined)
+          : undefined;
+        return promptResult('Respond to a negative review', negativeReviewPrompt({
+          shopName: this.defaultShopName(shopId),
+          review: summarizeReviews([review], 5).low_rated_reviews[0],
+          listing: listing && { listing_id: listing.listing_id, title: listing.title, description: listing.description }
+        }));
+      }
+    );
+  }
+
+  // Prompts take the same optional profile argument as tools and run with that profile selected
+  private registerPrompt<S extends PromptArgsShape>(name: string, description: string, shape: S, handler: (args: z.infer<z.ZodObject<S>>) => Promise<PromptMessageResult>) {
+    const promptSchema = z.object(shape);
+    const params: PromptArgsShape = { profile: profileArgument, ...shape };
+    this.register(server => server.prompt(
+      name,
+      description,
+      params,
+      async (rawArgs: unknown) => {
+        const args = promptSchema.parse(rawArgs);
+        const { profile } = promptArgsSchema.parse(rawArgs);
+        if (profile && !this.tokenStorage.hasProfile(profile)) {
+          throw new Error(this.unknownProfileMessage(profile));
+        }
+        return runWithContext({ profile }, () => handler(args));
+      }
+    ));
+  }
+
+  private requirePromptShopId(shopId: string | undefined, promptName: string): number {
+    const resolved = this.resolveShopId(shopId ? Number(shopId) : undefined, promptName);
+    if (!resolved) {
+      throw new Error('Shop ID is required. Provide a shop_id or run `set_default_shop` first.');
+    }
+    return resolved;
+  }
+
+  private defaultShopName(shopId: number): string | undefined {
+    const tokens = this.tokenStorage.getTokens();
+    return tokens?.shop_id === shopId ? tokens.shop_name : undefined;
+  }
+
+  private unknownProfileMessage(profile: string): string {
+    const known = this.tokenStorage.listProfiles().map(p => p.name);
+    return `Unknown profile "${profile}". ${known.length ? `Stored profiles: ${known.join(', ')}.` : 'No profiles are stored yet.'} Run authenticate with this profile to create it.`;
+  }
+
+  // A failing list callback would fail resources/list as a whole, so errors are logged and skipped
+  private async listResources(build: () => Promise<Array<{ uri: string; name: string; mimeType: string }>>) {
+    try {
+      return { resources: await build() };
+    } catch (error) {
+      logger.error('Could not list Etsy resources', error);
+      return { resources: [] };
+    }
+  }
+
+  private jsonResource(uri: URL, data: unknown) {
+    return {
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+    };
+  }
+
+  private async requireAccessToken(): Promise<string> {
+    const accessToken = await this.getValidAccessToken();
+    if (!accessToken) {
+      throw new Error('Authentication required. Please run the authenticate tool.');
+    }
+    return accessToken;
+  }
+
+  // Registers a tool with an optional `profile` argument. The call runs with that profile in its
+  // request context, so TokenStorage lookups inside the handler use the chosen account.
+  // Refined schemas advertise their inner object's shape and have the refinement checked here.
+  private registerTool<S extends z.ZodRawShape>(name: string, description: string, schema: S | z.ZodEffects<z.ZodObject<S>>, handler: (args: z.infer<z.ZodObject<S>>, extra: unknown) => Promise<CallToolResult>) {
+    const requiredScopes = TOOL_SCOPES[name];
+    if (!requiredScopes) {
+      throw new Error(`Tool ${name} does not declare its OAuth scopes in TOOL_SCOPES.`);
+    }
+    const toolSchema = schema instanceof z.ZodEffects ? schema : z.object(schema);
+    const shape = schema instanceof z.ZodEffects ? schema.innerType().shape : schema;
+    const mutating = MUTATING_TOOLS.has(name);
+    const params: z.ZodRawShape = { profile: profileArgument, ...(mutating ? { dry_run: dryRunArgument } : {}), ...shape };
+    this.register(server => server.tool(
+      name,
+      description,
+      params,
+      // The SDK only checks the plain shape; parsing again applies refinements and types the arguments
+      async (rawArgs: unknown, extra) => {
+        const parsed = toolSchema.safeParse(rawArgs);
+        if (!parsed.success) {
+          return this.handleError(new Error(parsed.error.issues.map(issue => issue.message).join(' ')), 'Invalid arguments.');
+        }
+        const args = parsed.data;
+        const { profile, dry_run } = toolArgsSchema.parse(rawArgs);
+        if (profile && name !== 'authenticate' && !this.tokenStorage.hasProfile(profile)) {
+          return this.handleError(new Error(this.unknownProfileMessage(profile)));
+        }
+        const missing = this.missingScopes(requiredScopes, profile);
+        if (missing.length > 0) {
+          const profileName = this.tokenStorage.resolveProfile(profile);
+          return this.handleError(new Error(`${name} needs the OAuth scope(s) ${missing.join(', ')}, which were not granted to profile "${profileName}". Re-authenticate with scope ${missing.join(', ')}: run authenticate with scopes ${JSON.stringify(missing)}${profile ? ` and profile "${profile}"` : ''}. Scopes already granted are kept.`));
+        }
+        const dryRun = mutating && (dry_run ?? process.env.ETSY_MCP_DRY_RUN === 'true');
+        // Calls arriving over HTTP keep the correlation ID of their request
+        const correlationId = getRequestContext().correlationId ?? newCorrelationId();
+        return runWithContext({ correlationId, profile, tool: name, dryRun: dryRun ? { requests: [] } : undefined }, async () => {
+          const startedAt = Date.now();
+          const result = await handler(args, extra);
+          logger.info(`[Tool] ${name} ${result.isError ? 'failed' : 'succeeded'} in ${Date.now() - startedAt}ms`, dryRun ? { dry_run: true } : undefined);
+          const context = getRequestContext();
+          if (context.dryRun) {
+            return this.dryRunResult(result, context.dryRun, reportsOwnDryRun(name, args));
+          }
+          const change = TOOL_RESOURCE_CHANGES[name]?.(args, this.tokenStorage.getTokens()?.shop_id);
+          if (change && !result.isError) {
+            this.notifyResourceChange(change);
+          }
+          return result;
+        });
+      }
+    ));
+  }
+
+  // Replaces a dry-run call's result with the requests it recorded. Errors (e.g. failed validation) and
+  // the results of tools that report their own dry run are returned as they are.
+  private dryRunResult(result: CallToolResult, dryRun: NonNullable<RequestContext['dryRun']>, reportsOwnDryRun: boolean): CallToolResult {
+    if (result.isError || reportsOwnDryRun) {
+      return result;
+    }
+    const summary = {
+      dry_run: true,
+      message: dryRun.requests.length > 0 ? 'Nothing was sent to Etsy. These requests would be sent:' : 'This call would not send any changes to Etsy.',
+      requests: dryRun.requests
+    };
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(summary, null, 2) }]
+    };
+  }
+
+  // Sends resources/updated to every client subscribed to an affected resource
+  private notifyResourceChange(change: ResourceChange) {
+    this.subscriptions.forEach((subscribed, server) => {
+      if (!server.isConnected()) {
+        return;
+      }
+      subscribed.forEach(uri => {
+        if (isAffectedBy(uri, change)) {
+          server.server.sendResourceUpdated({ uri })
+            .catch(error => logger.error(`Failed to send resource update for ${uri}`, error));
+        }
+      });
+      if (change.listChanged) {
+        server.sendResourceListChanged();
+      }
+    });
+  }
+
+  // Applies a registration to the primary server and records it for servers created later
+  private register(registration: (server: McpServer) => void) {
+    this.registrations.push(registration);
+    registration(this.server);
+  }
+
+  // Scopes from `required` that the profile's stored token was not granted. Profiles without tokens
+  // pass, so the tool itself reports that authentication is required.
+  private missingScopes(required: readonly string[], profile?: string): string[] {
+    const tokens = required.length > 0 ? this.tokenStorage.loadPotentiallyExpiredTokens(profile) : null;
+    if (!tokens) {
+      return [];
+    }
+    return missingScopes(this.grantedScopes(profile), required);
+  }
+
+  private grantedScopes(profile?: string): string[] {
+    const tokens = this.tokenStorage.loadPotentiallyExpiredTokens(profile);
+    if (!tokens) {
+      return [];
+    }
+    return tokens.scope !== undefined ? parseScopes(tokens.scope) : LEGACY_SCOPES;
+  }
+
+  // Shops owned by the authenticated user; throws when not authenticated
+  private async getUserShops(): Promise<Shop[]> {
+    const accessToken = await this.getValidAccessToken();
+    if (!accessToken) {
+      throw new Error('Authentication required. Please run authenticate first.');
+    }
+    const userId = this.tokenStorage.loadPotentiallyExpiredTokens()?.user_id;
+    if (!userId) {
+      throw new Error('User ID not found. Please try to re-authenticate.');
+    }
+    return etsyApi.getUserShops(userId, accessToken);
+  }
+
+  // Falls back to the default shop stored alongside the tokens when no shop_id is given
+  private resolveShopId(shopId: number | undefined, toolName: string): number | null {
+    if (shopId) {
+      return shopId;
+    }
+    const storedTokens = this.tokenStorage.getTokens();
+    if (storedTokens?.shop_id) {
+      logger.debug(`Using default shop ID: ${storedTokens.shop_id} for ${toolName}`);
+      return storedTokens.shop_id;
+    }
+    return null;
+  }
+
+  // Access token of the current profile, refreshed ahead of expiry by the token manager
+  private async getValidAccessToken(): Promise<string | null> {
+    return tokenManager.getValidAccessToken();
+  }
+
+  // Every tool reports failures with the same JSON payload so agents can branch on type/retryable/remediation
+  private handleError(error: unknown, customMessage?: string) {
+    const baseMessage = error instanceof Error ? error.message : String(error);
+    const errorMessage = customMessage ? `${customMessage} ${baseMessage}` : baseMessage;
+    logger.error(`MCP Tool Error: ${errorMessage}`, error);
+
+    const payload = error instanceof EtsyApiError
+      ? { ...error.toJSON(), message: errorMessage }
+      : { type: error instanceof Error ? error.name : 'Error', message: errorMessage, retryable: false };
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify({ error: payload }, null, 2) }],
       isError: true
     };
   }
 
+  // Connects the server over stdio (default) or serves it over HTTP, depending on ETSY_MCP_TRANSPORT
   async start() {
-    // ... existing code ...
+    const mode = getTransportMode();
+    tokenManager.start();
+    if (mode === 'http') {
+      this.httpServer = new McpHttpServer(getHttpTransportOptions(), () => this.createMcpServer());
+      await this.httpServer.start();
+    } else {
+      await this.server.connect(new StdioServerTransport());
+      logger.info('MCP server connected over stdio');
+    }
+    this.transportMode = mode;
+  }
+
+  // Closes client connections and stops the OAuth callback server and background token refreshes
+  async stop() {
+    tokenManager.stop();
+    if (this.httpServer) {
+      await this.httpServer.stop();
+      this.httpServer = null;
+    } else if (this.transportMode === 'stdio') {
+      await this.server.close();
+    }
+    this.transportMode = null;
+    await this.oauthServer.stop();
+    logger.info('MCP server stopped');
   }
 }
\ No newline at end of file
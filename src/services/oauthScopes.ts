@@ -0,0 +1,37 @@
+// Etsy Open API v3 OAuth scopes
+export const ETSY_SCOPES = [
+    'address_r', 'address_w', 'billing_r', 'cart_r', 'cart_w', 'email_r', 'favorites_r', 'favorites_w',
+    'feedback_r', 'listings_d', 'listings_r', 'listings_w', 'profile_r', 'profile_w', 'recommend_r',
+    'recommend_w', 'shops_r', 'shops_w', 'transactions_r', 'transactions_w'
+] as const;
+
+export type EtsyScope = typeof ETSY_SCOPES[number];
+
+// Requested when ETSY_OAUTH_SCOPES is not set: everything the built-in tools need
+export const DEFAULT_SCOPES: EtsyScope[] = ['listings_r', 'listings_w', 'listings_d', 'shops_r', 'shops_w', 'transactions_r', 'transactions_w'];
+
+// What earlier versions always requested; assumed for stored tokens that predate scope tracking
+export const LEGACY_SCOPES: EtsyScope[] = ['listings_r', 'listings_w', 'shops_r', 'shops_w'];
+
+export function isEtsyScope(value: string): value is EtsyScope {
+    return (ETSY_SCOPES as readonly string[]).includes(value);
+}
+
+// Splits a space- or comma-separated scope string, dropping duplicates
+export function parseScopes(value: string | undefined): string[] {
+    return [...new Set((value ?? '').split(/[\s,]+/).filter(Boolean))];
+}
+
+// Scopes requested by authenticate, from ETSY_OAUTH_SCOPES or the defaults
+export function getConfiguredScopes(): EtsyScope[] {
+    const configured = parseScopes(process.env.ETSY_OAUTH_SCOPES);
+    const unknown = configured.filter(scope => !isEtsyScope(scope));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown scope(s) in ETSY_OAUTH_SCOPES: ${unknown.join(', ')}. Valid scopes: ${ETSY_SCOPES.join(', ')}.`);
+    }
+    return configured.length > 0 ? configured as EtsyScope[] : DEFAULT_SCOPES;
+}
+
+export function missingScopes(granted: string[], required: readonly string[]): string[] {
+    return required.filter(scope => !granted.includes(scope));
+}
@@ -1,15 +1,21 @@
 import express, { Request, Response } from 'express';
 import { Server } from 'http';
-import { TokenStorage } from './tokenStorage.js';
+import { TokenStorage, isValidProfileName } from './tokenStorage.js';
 import * as dotenv from 'dotenv';
 import { etsyApi } from './etsyApi.js'; // Use the singleton instance
+import { tokenManager } from './tokenManager.js';
+import { getConfiguredScopes, isEtsyScope, parseScopes } from './oauthScopes.js';
+import { Shop } from './etsyModels.js';
 import crypto from 'crypto';
+import { newCorrelationId, runWithContext } from './requestContext.js';
 import { logger } from '../utils/logger.js';
 
 dotenv.config();
 
 interface StateData {
     codeVerifier: string;
+    profile: string;
+    scopes: string[];
     createdAt: number;
 }
 
@@ -26,6 +32,8 @@ export class OAuthServer {
 
     constructor(port: number = 3003) {
         this.app = express();
+        // Ties the token exchange and shop lookup of one callback together in the log
+        this.app.use((req, res, next) => runWithContext({ correlationId: newCorrelationId() }, next));
         this.port = port;
         this.host = process.env.ETSY_MCP_HOST || 'localhost';
         this.tokenStorage = TokenStorage.getInstance();
@@ -35,33 +43,49 @@ export class OAuthServer {
 
     // Periodically clean up old states
     private cleanupExpiredStates() {
-        setInterval(() => {
+        const interval = setInterval(() => {
             const now = Date.now();
             this.stateStore.forEach((data, state) => {
                 if (now - data.createdAt > this.stateTTL) {
                     this.stateStore.delete(state);
-                    logger.log(`Expired state removed: ${state}`);
+                    logger.debug('Expired OAuth state removed');
                 }
             });
         }, 60 * 1000); // Check every minute
+        interval.unref(); // Must not keep the process alive after shutdown
     }
 
     private setupRoutes() {
         // Route to initiate OAuth flow
-        this.app.get('/auth', async (_req: Request, res: Response) => {
+        this.app.get('/auth', async (req: Request, res: Response) => {
             try {
-                logger.log('Starting OAuth flow...');
+                logger.debug('Starting OAuth flow...');
+
+                // Tokens from this flow are stored under the requested profile (the active one by default)
+                const profile = typeof req.query.profile === 'string' && req.query.profile
+                    ? req.query.profile
+                    : this.tokenStorage.getActiveProfile();
+                if (!isValidProfileName(profile)) {
+                    this.sendErrorResponse(res, `Invalid profile name "${profile}"`);
+                    return;
+                }
+                const scopes = typeof req.query.scope === 'string' ? parseScopes(req.query.scope) : getConfiguredScopes();
+                const unknownScopes = scopes.filter(scope => !isEtsyScope(scope));
+                if (unknownScopes.length > 0) {
+                    this.sendErrorResponse(res, `Unknown OAuth scope(s): ${unknownScopes.join(', ')}`);
+                    return;
+                }
                 
                 // Generate state and PKCE codes
                 const state = crypto.randomBytes(16).toString('hex');
                 const { codeVerifier, codeChallenge } = etsyApi.generatePKCE(); // Use method from etsyApi instance
 
                 // Store codeVerifier associated with state
-                this.stateStore.set(state, { codeVerifier, createdAt: Date.now() });
-                logger.log('Generated state and PKCE', { state });
+                this.stateStore.set(state, { codeVerifier, profile, scopes, createdAt: Date.now() });
+                logger.info('OAuth flow started', { profile, scopes });
 
-                const authUrl = etsyApi.getAuthorizationUrl(state, codeChallenge);
-                logger.log('Redirecting to Etsy OAuth page', { authUrl });
+                const authUrl = etsyApi.getAuthorizationUrl(state, codeChallenge, scopes);
+                logger.debug('Redirecting to Etsy OAuth page');
                 res.redirect(authUrl);
             } catch (error) {
                 logger.error('Error initializing OAuth flow', error);
@@ -72,7 +96,7 @@ export class OAuthServer {
         // OAuth callback route
         this.app.get('/oauth/callback', async (req: Request, res: Response) => {
             const { code, state, error, error_description } = req.query;
-            logger.log('Received OAuth callback', { 
+            logger.debug('Received OAuth callback', { 
                 code: code ? 'present' : 'missing', 
                 state: state ? 'present' : 'missing',
                 error, 
@@ -101,41 +125,38 @@ export class OAuthServer {
                 return;
             }
             this.stateStore.delete(state); // State used, remove it
-            const { codeVerifier } = storedStateData;
+            const { codeVerifier, profile, scopes } = storedStateData;
 
-            logger.log('Processing OAuth callback', {
-                code: `${code.substring(0, 10)}...`,
-                state,
-                codeVerifier: `${codeVerifier.substring(0, 10)}...`,
-            });
+            logger.debug('Processing OAuth callback', { profile });
 
             try {
                 // Exchange code for tokens using the specific codeVerifier
-                logger.log('Exchanging code for tokens...');
+                logger.debug('Exchanging code for tokens...');
                 const tokens = await etsyApi.getAccessTokenFromCode(code, codeVerifier);
-                logger.log('Token exchange successful', {
+                logger.info('Token exchange successful', {
                     accessToken: tokens.access_token ? 'present' : 'missing',
                     refreshToken: tokens.refresh_token ? 'present' : 'missing',
                     userId: tokens.user_id
                 });
 
-                let shopToSet: any = null; // Define a more specific type if shop structure is known
+                let shopToSet: Shop | null = null;
+                let shopCount = 0;
                 if (tokens.user_id && tokens.access_token) {
                     try {
-                        logger.log(`Fetching shops for user ID: ${tokens.user_id}`);
-                        const userShopsResponse = await etsyApi.getUserShops(tokens.user_id, tokens.access_token);
-                        
-                        // Handle both possible response structures from Etsy API for user shops
-                        if (userShopsResponse && userShopsResponse.results && userShopsResponse.count > 0) {
-                            // Case 1: Etsy returns a list of shops
-                            shopToSet = userShopsResponse.results[0]; 
-                            logger.log(`Automatically selected shop (from list): ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
-                        } else if (userShopsResponse && userShopsResponse.shop_id) {
-                            // Case 2: Etsy returns a single shop object directly
-                            shopToSet = userShopsResponse; 
-                            logger.log(`Automatically selected shop (single object): ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
+                        logger.debug(`Fetching shops for user ID: ${tokens.user_id}`);
+                        const shops = await etsyApi.getUserShops(tokens.user_id, tokens.access_token);
+                        // Keep the previous default when re-authenticating; otherwise only a single shop
+                        // is selected automatically, so a multi-shop account must choose with set_default_shop
+                        const previous = this.tokenStorage.loadPotentiallyExpiredTokens(profile);
+                        const previousShop = previous?.user_id === tokens.user_id
+                            ? shops.find(shop => shop.shop_id === previous.shop_id)
+                            : undefined;
+                        shopToSet = previousShop ?? (shops.length === 1 ? shops[0] : null);
+                        shopCount = shops.length;
+                        if (shopToSet) {
+                            logger.info(`Selected default shop: ${shopToSet.shop_name} (ID: ${shopToSet.shop_id})`);
                         } else {
-                            logger.log('No shops found for the user or unexpected response structure from getUserShops.');
+                            logger.info(`No default shop selected; the user has ${shops.length} shops.`);
                         }
                     } catch (shopError) {
                         logger.error('Failed to fetch user shops during OAuth callback:', shopError);
@@ -150,12 +171,19 @@ export class OAuthServer {
                     expires_in: tokens.expires_in, // Pass expires_in for TokenStorage to calculate expires_at
                     user_id: tokens.user_id,
                     shop_id: shopToSet?.shop_id,    // Use optional chaining in case no shops
-                    shop_name: shopToSet?.shop_name // Use optional chaining
-                });
+                    shop_name: shopToSet?.shop_name, // Use optional chaining
+                    // Etsy may omit the granted scope from the token response; it then matches the request
+                    scope: tokens.scope || scopes.join(' ')
+                }, profile);
+                // The first authenticated profile becomes the active one
+                if (!this.tokenStorage.hasProfile(this.tokenStorage.getActiveProfile())) {
+                    this.tokenStorage.setActiveProfile(profile);
+                }
                 etsyApi.setAccessToken(tokens.access_token); // Update singleton instance
+                tokenManager.scheduleRefresh(profile);
 
                 // Send success response with auto-close, including user/shop info
-                this.sendSuccessResponse(res, tokens.user_id, shopToSet);
+                this.sendSuccessResponse(res, profile, tokens.user_id, shopToSet, shopCount);
 
                 // Stop the server after successful authentication (optional)
                 // Consider keeping it running if multiple authentications might happen
@@ -172,17 +200,20 @@ export class OAuthServer {
         return etsyApi.generatePKCE();
     }
 
-    private getAuthorizationUrl(state: string, codeChallenge: string): string {
-        return etsyApi.getAuthorizationUrl(state, codeChallenge);
+    private getAuthorizationUrl(state: string, codeChallenge: string, scopes: string[]): string {
+        return etsyApi.getAuthorizationUrl(state, codeChallenge, scopes);
     }
 
-    private sendSuccessResponse(res: Response, userId?: number, shop?: any) {
+    private sendSuccessResponse(res: Response, profile: string, userId?: number, shop?: Shop | null, shopCount = 0) {
         let message = '<h1>Authentication Successful!</h1>';
+        message += `<p>Profile: ${profile}</p>`;
         if (userId) {
             message += `<p>Your User ID: ${userId}</p>`;
         }
         if (shop?.shop_id) {
             message += `<p>Default Shop Set: ${shop.shop_name || 'N/A'} (ID: ${shop.shop_id})</p>`;
+        } else if (shopCount > 1) {
+            message += `<p>Your account has ${shopCount} shops. Use the \`list_my_shops\` and \`set_default_shop\` tools to choose the default shop.</p>`;
         } else {
             message += '<p>No default shop was automatically set. You can use the `set_default_shop` tool if needed.</p>';
         }
@@ -221,15 +252,15 @@ export class OAuthServer {
     async start() {
         return new Promise<void>((resolve, reject) => {
             if (this.server) {
-                logger.log('OAuth server already running.');
+                logger.info('OAuth server already running.');
                 resolve();
                 return;
             }
             this.server = this.app.listen(this.port, this.host, () => {
-                logger.log(`OAuth server listening at http://${this.host}:${this.port}`);
+                logger.info(`OAuth server listening at http://${this.host}:${this.port}`);
                 this.server?.on('error', (error: NodeJS.ErrnoException) => { // Add error listener after listen
                     if (error.code === 'EADDRINUSE') {
-                        logger.log(`[WARN] Port ${this.port} already in use. OAuth server likely already running elsewhere.`); // Use log
+                        logger.warn(`Port ${this.port} already in use. OAuth server likely already running elsewhere.`);
                         // Don't reject, as another instance might be serving. Or, decide to reject if this instance *must* own the port.
                         resolve(); // Resolve so the main app doesn't hang if another instance is fine
                     } else {
@@ -243,7 +274,7 @@ export class OAuthServer {
             // Initial listener for immediate errors like EADDRINUSE before 'listening' event
             this.server.on('error', (error: NodeJS.ErrnoException) => {
                 if (error.code === 'EADDRINUSE') {
-                    logger.log(`[WARN] Port ${this.port} is already in use. OAuth server might be running in another process.`); // Use log
+                    logger.warn(`Port ${this.port} is already in use. OAuth server might be running in another process.`);
                     // Assuming another process is handling it, resolve to not block the app.
                     // If this server instance *must* own the port, then this should be a reject().
                     this.server = null; // Nullify as this instance didn't get the port
@@ -257,23 +288,36 @@ export class OAuthServer {
         });
     }
 
-    stop() {
-        if (this.server) {
+    stop(): Promise<void> {
+        return new Promise(resolve => {
+            if (!this.server) {
+                logger.info('OAuth server was not running or already stopped.');
+                resolve();
+                return;
+            }
             this.server.close((err) => {
                 if (err) {
                     logger.error('Error closing OAuth server:', err);
                 } else {
-                    logger.log('OAuth server stopped');
+                    logger.info('OAuth server stopped');
                 }
-                this.server = null; // Ensure server is nullified after close attempt
+                resolve();
             });
-        } else {
-            logger.log('OAuth server was not running or already stopped.');
-        }
+            this.server.closeAllConnections();
+            this.server = null; // Ensure server is nullified after close attempt
+        });
     }
 
-    public getAuthInitiationUrl(): string {
+    public getAuthInitiationUrl(profile?: string, scopes?: string[]): string {
         // URL the MCP client should direct the user to
-        return `http://${this.host}:${this.port}/auth`;
+        const params = new URLSearchParams();
+        if (profile) {
+            params.set('profile', profile);
+        }
+        if (scopes && scopes.length > 0) {
+            params.set('scope', scopes.join(' '));
+        }
+        const query = params.toString();
+        return `http://${this.host}:${this.port}/auth${query ? `?${query}` : ''}`;
     }
 } // Ensure class closes correctly
\ No newline at end of file
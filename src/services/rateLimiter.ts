@@ -0,0 +1,162 @@
+import { logger } from '../utils/logger.js';
+import { EtsyQuotaExhaustedError } from './etsyApiError.js';
+
+export interface RateLimitStatus {
+    limit_per_second: number;
+    remaining_this_second: number | null;
+    limit_per_day: number | null;
+    remaining_today: number | null;
+    queued_requests: number;
+    total_requests: number;
+    total_retries: number;
+    rate_limited_responses: number;
+    last_rate_limited_at: string | null;
+    headers_updated_at: string | null;
+}
+
+// Etsy's default quota for a new app is 10 requests per second and 10,000 per day
+const DEFAULT_LIMIT_PER_SECOND = 10;
+
+function parseHeader(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Queues outgoing requests so they stay under Etsy's per-second quota, and tracks
+// the quota Etsy reports in x-limit-per-second / x-remaining-* response headers.
+export class RateLimiter {
+    private limitPerSecond: number;
+    private remainingThisSecond: number | null = null;
+    private limitPerDay: number | null = null;
+    private remainingToday: number | null = null;
+    private headersUpdatedAt: number | null = null;
+    private recentStarts: number[] = [];
+    private queue: Array<() => void> = [];
+    private draining = false;
+    private pausedUntil = 0;
+    private totalRequests = 0;
+    private totalRetries = 0;
+    private rateLimitedResponses = 0;
+    private lastRateLimitedAt: number | null = null;
+
+    constructor(limitPerSecond: number = Number(process.env.ETSY_RATE_LIMIT_PER_SECOND) || DEFAULT_LIMIT_PER_SECOND) {
+        this.limitPerSecond = limitPerSecond;
+    }
+
+    // Resolves when the caller may start a request
+    async acquire(method: string, endpoint: string): Promise<void> {
+        if (this.remainingToday === 0 && this.headersUpdatedAt && this.isSameUtcDay(this.headersUpdatedAt)) {
+            const resetsAt = new Date();
+            resetsAt.setUTCHours(24, 0, 0, 0);
+            throw new EtsyQuotaExhaustedError({ method, endpoint }, resetsAt);
+        }
+        await new Promise<void>(resolve => {
+            this.queue.push(resolve);
+            this.drain();
+        });
+        this.totalRequests++;
+    }
+
+    private async drain(): Promise<void> {
+        if (this.draining) {
+            return;
+        }
+        this.draining = true;
+        try {
+            while (this.queue.length > 0) {
+                const now = Date.now();
+                this.recentStarts = this.recentStarts.filter(start => now - start < 1000);
+
+                let waitMs = Math.max(0, this.pausedUntil - now);
+                if (this.recentStarts.length >= this.limitPerSecond) {
+                    waitMs = Math.max(waitMs, 1000 - (now - this.recentStarts[0]));
+                }
+                // Etsy's own count can be lower than ours when other clients share the API key
+                if (this.remainingThisSecond === 0 && this.headersUpdatedAt && now - this.headersUpdatedAt < 1000) {
+                    waitMs = Math.max(waitMs, 1000 - (now - this.headersUpdatedAt));
+                }
+                if (waitMs > 0) {
+                    await sleep(waitMs);
+                    continue;
+                }
+
+                this.recentStarts.push(Date.now());
+                this.queue.shift()?.();
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    updateFromHeaders(headers: Record<string, unknown> | undefined): void {
+        if (!headers) {
+            return;
+        }
+        const limitPerSecond = parseHeader(headers['x-limit-per-second']);
+        const remainingThisSecond = parseHeader(headers['x-remaining-this-second']);
+        const limitPerDay = parseHeader(headers['x-limit-per-day']);
+        const remainingToday = parseHeader(headers['x-remaining-today']);
+
+        if (limitPerSecond !== null && limitPerSecond > 0) this.limitPerSecond = limitPerSecond;
+        if (remainingThisSecond !== null) this.remainingThisSecond = remainingThisSecond;
+        if (limitPerDay !== null) this.limitPerDay = limitPerDay;
+        if (remainingToday !== null) this.remainingToday = remainingToday;
+        if ([limitPerSecond, remainingThisSecond, limitPerDay, remainingToday].some(value => value !== null)) {
+            this.headersUpdatedAt = Date.now();
+        }
+    }
+
+    // Called on a 429 so every queued request waits, not only the one that was rejected
+    recordRateLimited(retryAfterMs: number): void {
+        this.rateLimitedResponses++;
+        this.lastRateLimitedAt = Date.now();
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+        logger.warn(`[RateLimiter] Rate limited by Etsy, pausing requests for ${retryAfterMs}ms`);
+    }
+
+    recordRetry(): void {
+        this.totalRetries++;
+    }
+
+    getStatus(): RateLimitStatus {
+        return {
+            limit_per_second: this.limitPerSecond,
+            remaining_this_second: this.remainingThisSecond,
+            limit_per_day: this.limitPerDay,
+            remaining_today: this.remainingToday,
+            queued_requests: this.queue.length,
+            total_requests: this.totalRequests,
+            total_retries: this.totalRetries,
+            rate_limited_responses: this.rateLimitedResponses,
+            last_rate_limited_at: this.lastRateLimitedAt ? new Date(this.lastRateLimitedAt).toISOString() : null,
+            headers_updated_at: this.headersUpdatedAt ? new Date(this.headersUpdatedAt).toISOString() : null
+        };
+    }
+
+    private isSameUtcDay(timestamp: number): boolean {
+        return new Date(timestamp).toISOString().slice(0, 10) === new Date().toISOString().slice(0, 10);
+    }
+}
+
+// Parses Retry-After as either delay-seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter: a random delay in [0, min(cap, base * 2^attempt)]
+export function backoffDelay(attempt: number, baseMs: number = 500, capMs: number = 30000): number {
+    return Math.floor(Math.random() * Math.min(capMs, baseMs * Math.pow(2, attempt)));
+}
@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+// A mutating Etsy request that a dry run recorded instead of sending
+export interface PlannedRequest {
+    method: string;
+    endpoint: string;
+    payload: unknown;
+}
+
+// State scoped to a single tool call, visible to everything the call awaits
+export interface RequestContext {
+    // Ties log entries and audit entries to the tool call or HTTP request that caused them
+    correlationId?: string;
+    profile?: string;
+    // Name of the tool being called, recorded in the audit log
+    tool?: string;
+    // Present during dry runs; mutating requests are collected here instead of being sent
+    dryRun?: { requests: PlannedRequest[] };
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getRequestContext(): RequestContext {
+    return storage.getStore() ?? {};
+}
+
+export function newCorrelationId(): string {
+    return crypto.randomBytes(6).toString('hex');
+}
@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { getStorageDirectory } from './tokenStorage.js';
+import { logger } from '../utils/logger.js';
+
+export interface CacheEntry {
+    data: unknown;
+    etag?: string;
+    storedAt: number;
+    expiresAt: number;
+    tags: string[];
+}
+
+// Storage backend for cached responses; implementations decide eviction and persistence
+export interface CacheStore {
+    get(key: string): CacheEntry | undefined;
+    set(key: string, entry: CacheEntry): void;
+    delete(key: string): void;
+    keys(): string[];
+    clear(): void;
+}
+
+// Least-recently-used store on top of Map's insertion order
+export class MemoryLruStore implements CacheStore {
+    protected entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number = 500) {}
+
+    get(key: string): CacheEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+// Orders, transactions and payments carry buyer names and addresses
+const BUYER_DATA_ENDPOINT = /\/receipts|\/transactions|\/payments|\/payment-account/;
+
+// LRU store that is loaded from and written back to a JSON file so entries survive restarts.
+// Responses with buyer data are kept in memory only and never written to the file.
+export class PersistentLruStore extends MemoryLruStore {
+    private writeTimer: NodeJS.Timeout | null = null;
+
+    constructor(private filePath: string, maxEntries?: number) {
+        super(maxEntries);
+        try {
+            if (fs.existsSync(filePath)) {
+                const saved: Array<[string, CacheEntry]> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                // Files written by earlier versions may still contain buyer data
+                saved.filter(([key]) => PersistentLruStore.isPersistable(key)).forEach(([key, entry]) => super.set(key, entry));
+            }
+        } catch (error) {
+            logger.error(`[ResponseCache] Failed to load persisted cache from ${filePath}`, error);
+        }
+    }
+
+    set(key: string, entry: CacheEntry): void {
+        super.set(key, entry);
+        this.scheduleWrite();
+    }
+
+    delete(key: string): void {
+        super.delete(key);
+        this.scheduleWrite();
+    }
+
+    clear(): void {
+        super.clear();
+        this.scheduleWrite();
+    }
+
+    static isPersistable(key: string): boolean {
+        return !BUYER_DATA_ENDPOINT.test(key);
+    }
+
+    // Batches bursts of changes into one write
+    private scheduleWrite(): void {
+        if (this.writeTimer) {
+            return;
+        }
+        this.writeTimer = setTimeout(() => {
+            this.writeTimer = null;
+            try {
+                fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+                fs.writeFileSync(this.filePath, JSON.stringify(Array.from(this.entries.entries()).filter(([key]) => PersistentLruStore.isPersistable(key))), { mode: 0o600, encoding: 'utf8' });
+            } catch (error) {
+                logger.error(`[ResponseCache] Failed to persist cache to ${this.filePath}`, error);
+            }
+        }, 1000);
+        this.writeTimer.unref();
+    }
+}
+
+// First matching rule wins
+const TTL_RULES: Array<[RegExp, number]> = [
+    [/\/seller-taxonomy\//, 24 * 60 * 60 * 1000],
+    [BUYER_DATA_ENDPOINT, 30 * 1000],
+    [/\/reviews/, 5 * 60 * 1000],
+    [/\/shipping-profiles/, 10 * 60 * 1000],
+    [/\/users\/\d+\/shops/, 10 * 60 * 1000],
+    [/\/shops\/\d+(\?|$)/, 10 * 60 * 1000],
+    [/\/listings/, 2 * 60 * 1000]
+];
+const DEFAULT_TTL_MS = 60 * 1000;
+
+// Tags tie cached GETs to the shops/listings they describe so mutations can invalidate them
+export function tagsForEndpoint(endpoint: string): string[] {
+    const tags: string[] = [];
+    const shop = endpoint.match(/\/shops\/(\d+)/);
+    const listing = endpoint.match(/\/listings\/(\d+)/);
+    const receipt = endpoint.match(/\/receipts\/(\d+)/);
+    if (shop) tags.push(`shop:${shop[1]}`);
+    if (listing) tags.push(`listing:${listing[1]}`);
+    if (receipt) tags.push(`receipt:${receipt[1]}`);
+    if (/\/listings(\/|\?|$)/.test(endpoint)) tags.push('listings');
+    if (/\/receipts(\/|\?|$)/.test(endpoint)) tags.push('receipts');
+    return tags;
+}
+
+export class ResponseCache {
+    private hits = 0;
+    private misses = 0;
+    private revalidations = 0;
+
+    constructor(private store: CacheStore, private enabled: boolean = true) {}
+
+    static fromEnvironment(): ResponseCache {
+        const maxEntries = Number(process.env.ETSY_RESPONSE_CACHE_MAX_ENTRIES) || 500;
+        const store = process.env.ETSY_RESPONSE_CACHE_PERSIST === 'true'
+            ? new PersistentLruStore(path.join(getStorageDirectory(), 'response-cache.json'), maxEntries)
+            : new MemoryLruStore(maxEntries);
+        return new ResponseCache(store, process.env.ETSY_RESPONSE_CACHE !== 'off');
+    }
+
+    // Responses are per user, so the key includes the user ID prefix of the access token
+    keyFor(endpoint: string, accessToken?: string): string {
+        const user = accessToken ? accessToken.split('.')[0] : 'public';
+        return `${user}:${endpoint}`;
+    }
+
+    ttlFor(endpoint: string): number {
+        const rule = TTL_RULES.find(([pattern]) => pattern.test(endpoint));
+        return rule ? rule[1] : DEFAULT_TTL_MS;
+    }
+
+    // Copy of a cached body, for the same reason save() stores a copy
+    static dataOf<T>(entry: CacheEntry): T {
+        return JSON.parse(JSON.stringify(entry.data));
+    }
+
+    // Returns the entry (fresh or stale-with-ETag) or undefined
+    lookup(key: string): { entry: CacheEntry; fresh: boolean } | undefined {
+        if (!this.enabled) {
+            return undefined;
+        }
+        const entry = this.store.get(key);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+        const fresh = entry.expiresAt > Date.now();
+        if (fresh) {
+            this.hits++;
+        } else if (!entry.etag) {
+            this.store.delete(key);
+            this.misses++;
+            return undefined;
+        }
+        return { entry, fresh };
+    }
+
+    save(key: string, endpoint: string, data: unknown, etag?: string): void {
+        if (!this.enabled) {
+            return;
+        }
+        const now = Date.now();
+        // Stored as a copy so callers that modify the returned response do not alter the cache
+        this.store.set(key, { data: JSON.parse(JSON.stringify(data)), etag, storedAt: now, expiresAt: now + this.ttlFor(endpoint), tags: tagsForEndpoint(endpoint) });
+    }
+
+    // Called on 304 Not Modified: the cached body is still valid for another TTL
+    revalidated(key: string, endpoint: string): void {
+        const entry = this.store.get(key);
+        if (entry) {
+            this.revalidations++;
+            this.store.set(key, { ...entry, expiresAt: Date.now() + this.ttlFor(endpoint) });
+        }
+    }
+
+    // Drops every cached GET that shares a shop, listing or receipt with a mutated endpoint
+    invalidateForMutation(endpoint: string): number {
+        const mutationTags = tagsForEndpoint(endpoint).filter(tag => tag.includes(':'));
+        // A listing change also affects listing collections of any shop (e.g. /shops/1/listings/active)
+        if (mutationTags.some(tag => tag.startsWith('listing:'))) mutationTags.push('listings');
+        if (mutationTags.some(tag => tag.startsWith('receipt:'))) mutationTags.push('receipts');
+        return this.invalidate(entry => entry.tags.some(tag => mutationTags.includes(tag)));
+    }
+
+    invalidate(predicate: (entry: CacheEntry, key: string) => boolean): number {
+        let removed = 0;
+        this.store.keys().forEach(key => {
+            const entry = this.store.get(key);
+            if (entry && predicate(entry, key)) {
+                this.store.delete(key);
+                removed++;
+            }
+        });
+        return removed;
+    }
+
+    clear(): number {
+        const count = this.store.keys().length;
+        this.store.clear();
+        return count;
+    }
+
+    getStats() {
+        return {
+            enabled: this.enabled,
+            entries: this.store.keys().length,
+            hits: this.hits,
+            misses: this.misses,
+            revalidations: this.revalidations
+        };
+    }
+}
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+
+const MAX_NOTES_BYTES = 100 * 1024;
+
+// A type alias rather than an interface, so it satisfies the SDK's index-signature result type
+export type PromptMessageResult = {
+    description: string;
+    messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+};
+
+// Reads product notes (.txt or .md) from ETSY_IMPORT_SOURCE_DIR, the same directory import_listings uses
+export function readNotesFile(fileName: string): string {
+    const importDir = process.env.ETSY_IMPORT_SOURCE_DIR;
+    if (!importDir) {
+        throw new Error('Import directory is not configured. Set ETSY_IMPORT_SOURCE_DIR in the server environment.');
+    }
+    const filePath = path.join(importDir, path.basename(fileName));
+    if (!['.txt', '.md'].includes(path.extname(filePath).toLowerCase())) {
+        throw new Error('Notes files must be .txt or .md files.');
+    }
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Notes file not found: ${filePath}`);
+    }
+    if (fs.statSync(filePath).size > MAX_NOTES_BYTES) {
+        throw new Error(`Notes file ${filePath} is larger than ${MAX_NOTES_BYTES / 1024} KB.`);
+    }
+    return fs.readFileSync(filePath, 'utf8');
+}
+
+export function promptResult(description: string, text: string): PromptMessageResult {
+    return {
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+}
+
+function jsonBlock(label: string, data: unknown): string {
+    return `${label}:\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+export function listingFromNotesPrompt(data: { notes: string; shop: unknown; shippingProfiles: unknown[]; categories: unknown[] }): string {
+    return [
+        'You are helping an Etsy seller turn rough product notes into a complete listing.',
+        `Product notes:\n"""\n${data.notes.trim()}\n"""`,
+        jsonBlock('Shop', data.shop),
+        jsonBlock('Shipping profiles of the shop', data.shippingProfiles),
+        jsonBlock('Categories that match the notes (from search_taxonomy)', data.categories),
+        [
+            'Steps:',
+            '1. Draft the listing: a title under 140 characters that leads with what the item is, a description that covers materials, size, care and what makes the item special, up to 13 tags (20 characters each) and the materials.',
+            '2. Pick the most specific matching category (taxonomy_id) and, for physical items, the best fitting shipping_profile_id. Ask if none fits.',
+            '3. Ask for anything the notes do not say but Etsy requires: price, quantity, who made it, when it was made.',
+            '4. Show the complete listing_data for create_listing and wait for confirmation before calling it. The listing is created as a draft.',
+            '5. Afterwards, suggest upload_listing_image for the photos and publish_listing once the draft is ready.'
+        ].join('\n')
+    ].join('\n\n');
+}
+
+export function unshippedOrdersPrompt(data: { shopName?: string; total: number; orders: unknown[] }): string {
+    return [
+        `You are helping ${data.shopName ? `the Etsy shop "${data.shopName}"` : 'an Etsy seller'} work through paid orders that have not shipped yet.`,
+        jsonBlock(`Unshipped orders (${data.orders.length} of ${data.total}, oldest first)`, data.orders),
+        [
+            'Steps:',
+            '1. Group the orders by urgency: oldest first, and flag orders that look late.',
+            '2. Call out buyer messages, gift notes or personalization that need attention before packing.',
+            '3. Produce a packing list: item quantities summed across all orders, by title and variation.',
+            '4. For orders the seller has already shipped, collect the tracking code and carrier, then record them with create_receipt_shipment (or create_receipt_shipments_batch for several). Confirm before calling either tool, since Etsy emails the buyer.'
+        ].join('\n')
+    ].join('\n\n');
+}
+
+export function listingAuditPrompt(data: { shopName?: string; state: string; total: number; listings: unknown[] }): string {
+    return [
+        `You are auditing the ${data.state} listings of ${data.shopName ? `the Etsy shop "${data.shopName}"` : 'an Etsy shop'}.`,
+        jsonBlock(`Listings (${data.listings.length} of ${data.total}) with the problems found by the readiness check`, data.listings),
+        [
+            'Steps:',
+            '1. Summarize the problems that affect the most listings first.',
+            '2. For each listing that needs work, list concrete fixes: missing or weak tags (Etsy allows 13), short or vague titles and descriptions, missing photos, low stock, missing shipping profiles.',
+            '3. Suggest better titles and tags where they would help search visibility, keeping the seller\'s voice.',
+            '4. Offer to apply the fixes with update_listing (or update_listing_inventory for prices and stock). Apply changes only after the seller confirms them.'
+        ].join('\n')
+    ].join('\n\n');
+}
+
+export function negativeReviewPrompt(data: { shopName?: string; review: unknown; listing?: unknown }): string {
+    return [
+        `You are helping ${data.shopName ? `the Etsy shop "${data.shopName}"` : 'an Etsy seller'} respond to a negative review.`,
+        jsonBlock('Review', data.review),
+        data.listing ? jsonBlock('Reviewed listing', data.listing) : '',
+        [
+            'Steps:',
+            '1. Explain in one or two sentences what the buyer is unhappy about and whether the listing details support it.',
+            '2. Draft a short public response: thank the buyer, acknowledge the problem without blaming them, say what the shop does about it, and keep it professional for future buyers reading it.',
+            '3. Draft a private message to the buyer that offers a concrete resolution (replacement, refund or repair) where appropriate.',
+            '4. Note that the Etsy API cannot post review responses; the seller posts the response in Shop Manager.'
+        ].join('\n')
+    ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { etsyApi } from './etsyApi.js';
+import { SellerTaxonomyNode, TaxonomyProperty } from './etsyModels.js';
+import { getStorageDirectory } from './tokenStorage.js';
+import { fuzzyScore } from '../utils/fuzzy.js';
+import { logger } from '../utils/logger.js';
+
+export interface TaxonomyNode {
+    id: number;
+    name: string;
+    level: number;
+    parent_id: number | null;
+    path: string[];
+    children_ids: number[];
+}
+
+interface CachedTaxonomy {
+    fetched_at: number;
+    nodes: TaxonomyNode[];
+}
+
+interface CachedProperties {
+    [taxonomyId: string]: { fetched_at: number; properties: TaxonomyProperty[] };
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+// Caches the seller taxonomy and per-node properties on disk next to the token file.
+// Stale entries are refreshed on access; if Etsy cannot be reached, stale data is served instead.
+export class TaxonomyCache {
+    private taxonomyFile: string;
+    private propertiesFile: string;
+    private ttlMs: number;
+    private taxonomy: CachedTaxonomy | null = null;
+    private properties: CachedProperties | null = null;
+
+    constructor() {
+        const storageDir = getStorageDirectory();
+        this.taxonomyFile = path.join(storageDir, 'taxonomy.json');
+        this.propertiesFile = path.join(storageDir, 'taxonomy-properties.json');
+        const ttlHours = Number(process.env.ETSY_TAXONOMY_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS;
+        this.ttlMs = ttlHours * 60 * 60 * 1000;
+    }
+
+    private readJson<T>(filePath: string): T | null {
+        try {
+            if (!fs.existsSync(filePath)) {
+                return null;
+            }
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            logger.error(`[TaxonomyCache] Failed to read cache file ${filePath}`, error);
+            return null;
+        }
+    }
+
+    private writeJson(filePath: string, data: unknown): void {
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify(data), 'utf8');
+        } catch (error) {
+            // The cache is an optimisation; keep serving from memory if it cannot be persisted
+            logger.error(`[TaxonomyCache] Failed to write cache file ${filePath}`, error);
+        }
+    }
+
+    private isFresh(fetchedAt: number): boolean {
+        return Date.now() - fetchedAt < this.ttlMs;
+    }
+
+    // Flattens Etsy's nested node tree into a list with full paths
+    private flatten(nodes: SellerTaxonomyNode[], parentPath: string[] = [], result: TaxonomyNode[] = []): TaxonomyNode[] {
+        nodes.forEach(node => {
+            const nodePath = [...parentPath, node.name];
+            result.push({
+                id: node.id,
+                name: node.name,
+                level: node.level,
+                parent_id: node.parent_id ?? null,
+                path: nodePath,
+                children_ids: node.children_ids || (node.children || []).map(child => child.id)
+            });
+            this.flatten(node.children || [], nodePath, result);
+        });
+        return result;
+    }
+
+    async getNodes(forceRefresh: boolean = false): Promise<TaxonomyNode[]> {
+        if (!this.taxonomy) {
+            this.taxonomy = this.readJson<CachedTaxonomy>(this.taxonomyFile);
+        }
+        if (this.taxonomy && !forceRefresh && this.isFresh(this.taxonomy.fetched_at)) {
+            return this.taxonomy.nodes;
+        }
+
+        try {
+            const response = await etsyApi.getSellerTaxonomyNodes();
+            this.taxonomy = { fetched_at: Date.now(), nodes: this.flatten(response.results) };
+            this.writeJson(this.taxonomyFile, this.taxonomy);
+            logger.info(`[TaxonomyCache] Cached ${this.taxonomy.nodes.length} taxonomy nodes`);
+        } catch (error) {
+            if (!this.taxonomy) {
+                throw error;
+            }
+            logger.error('[TaxonomyCache] Taxonomy refresh failed, using cached copy', error);
+        }
+        return this.taxonomy.nodes;
+    }
+
+    async getNode(taxonomyId: number, forceRefresh: boolean = false): Promise<TaxonomyNode | undefined> {
+        const nodes = await this.getNodes(forceRefresh);
+        return nodes.find(node => node.id === taxonomyId);
+    }
+
+    async getProperties(taxonomyId: number, forceRefresh: boolean = false): Promise<TaxonomyProperty[]> {
+        if (!this.properties) {
+            this.properties = this.readJson<CachedProperties>(this.propertiesFile) || {};
+        }
+        const cached = this.properties[String(taxonomyId)];
+        if (cached && !forceRefresh && this.isFresh(cached.fetched_at)) {
+            return cached.properties;
+        }
+
+        try {
+            const response = await etsyApi.getSellerTaxonomyNodeProperties(taxonomyId.toString());
+            this.properties[String(taxonomyId)] = { fetched_at: Date.now(), properties: response.results };
+            this.writeJson(this.propertiesFile, this.properties);
+            return response.results;
+        } catch (error) {
+            if (!cached) {
+                throw error;
+            }
+            logger.error(`[TaxonomyCache] Property refresh for node ${taxonomyId} failed, using cached copy`, error);
+            return cached.properties;
+        }
+    }
+
+    async search(query: string, limit: number = 10, forceRefresh: boolean = false) {
+        const nodes = await this.getNodes(forceRefresh);
+        return nodes
+            // Matches on the node's own name count double compared to matches on its ancestors
+            .map(node => ({ node, score: fuzzyScore(query, node.name) * 2 + fuzzyScore(query, node.path.join(' ')) }))
+            .filter(match => match.score > 0)
+            // Prefer leaf categories, since listings must use the most specific node
+            .map(match => ({ ...match, score: match.score + (match.node.children_ids.length === 0 ? 0.5 : 0) }))
+            .sort((a, b) => b.score - a.score || a.node.level - b.node.level)
+            .slice(0, limit)
+            .map(({ node, score }) => ({
+                taxonomy_id: node.id,
+                name: node.name,
+                full_path: node.path.join(' > '),
+                is_leaf: node.children_ids.length === 0,
+                score: Math.round(score * 100) / 100
+            }));
+    }
+}
+
+export const taxonomyCache = new TaxonomyCache();
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Where TokenStorage keeps its serialized profile document
+export interface TokenStorageBackend {
+    readonly name: string;
+    // Returns the stored document, or null when nothing has been stored yet
+    read(): string | null;
+    write(contents: string): void;
+    clear(): void;
+}
+
+// Raised when an encrypted token file cannot be decrypted (wrong passphrase/key or a modified file)
+export class TokenDecryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TokenDecryptionError';
+    }
+}
+
+// Plain JSON file, readable only by the owner
+export class PlaintextFileBackend implements TokenStorageBackend {
+    readonly name = 'file';
+
+    constructor(private readonly filePath: string) {}
+
+    read(): string | null {
+        return fs.existsSync(this.filePath) ? fs.readFileSync(this.filePath, 'utf8') : null;
+    }
+
+    write(contents: string): void {
+        fs.writeFileSync(this.filePath, contents, { mode: 0o600, encoding: 'utf8' });
+    }
+
+    clear(): void {
+        fs.rmSync(this.filePath, { force: true });
+    }
+}
+
+interface EncryptedEnvelope {
+    version: 1;
+    algorithm: 'aes-256-gcm';
+    kdf: 'scrypt';
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+// AES-256-GCM encrypted file. The key is derived from the secret with scrypt and a per-file salt;
+// every write uses a fresh IV, and the GCM tag rejects files that were modified or decrypted with the wrong secret.
+export class EncryptedFileBackend implements TokenStorageBackend {
+    readonly name = 'encrypted';
+    private derivedKeys = new Map<string, Buffer>();
+
+    constructor(private readonly filePath: string, private readonly secret: string) {
+        if (!secret) {
+            throw new Error('Encrypted token storage needs a non-empty passphrase or key file.');
+        }
+    }
+
+    read(): string | null {
+        if (!fs.existsSync(this.filePath)) {
+            return null;
+        }
+
+        let envelope: EncryptedEnvelope;
+        try {
+            envelope = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        } catch {
+            throw new TokenDecryptionError(`${this.filePath} is not a valid encrypted token file.`);
+        }
+        if (envelope.version !== 1 || envelope.algorithm !== 'aes-256-gcm') {
+            throw new TokenDecryptionError(`${this.filePath} uses an unsupported format (version ${envelope.version}, ${envelope.algorithm}).`);
+        }
+
+        try {
+            const decipher = crypto.createDecipheriv('aes-256-gcm', this.keyFor(envelope.salt), Buffer.from(envelope.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+            return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf8');
+        } catch {
+            throw new TokenDecryptionError(`Could not decrypt ${this.filePath}. Check ETSY_MCP_TOKEN_PASSPHRASE or ETSY_MCP_TOKEN_KEY_FILE.`);
+        }
+    }
+
+    write(contents: string): void {
+        const salt = this.currentSalt() ?? crypto.randomBytes(16).toString('base64');
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.keyFor(salt), iv);
+        const data = Buffer.concat([cipher.update(contents, 'utf8'), cipher.final()]);
+        const envelope: EncryptedEnvelope = {
+            version: 1,
+            algorithm: 'aes-256-gcm',
+            kdf: 'scrypt',
+            salt,
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+        fs.writeFileSync(this.filePath, JSON.stringify(envelope, null, 2), { mode: 0o600, encoding: 'utf8' });
+    }
+
+    clear(): void {
+        fs.rmSync(this.filePath, { force: true });
+    }
+
+    // Reusing the file's salt keeps the (deliberately slow) scrypt derivation to once per process
+    private currentSalt(): string | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(this.filePath, 'utf8')).salt;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private keyFor(salt: string): Buffer {
+        let key = this.derivedKeys.get(salt);
+        if (!key) {
+            key = crypto.scryptSync(this.secret, Buffer.from(salt, 'base64'), 32);
+            this.derivedKeys.set(salt, key);
+        }
+        return key;
+    }
+}
+
+// Keeps tokens for the lifetime of the process only (e.g. read-only file systems)
+export class MemoryBackend implements TokenStorageBackend {
+    readonly name = 'memory';
+
+    constructor(private contents: string | null = null) {}
+
+    read(): string | null {
+        return this.contents;
+    }
+
+    write(contents: string): void {
+        this.contents = contents;
+    }
+
+    clear(): void {
+        this.contents = null;
+    }
+}
@@ -0,0 +1,160 @@
+import { etsyApi } from './etsyApi.js';
+import { EtsyApiError } from './etsyApiError.js';
+import { TokenStorage } from './tokenStorage.js';
+import { backoffDelay, sleep } from './rateLimiter.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_REFRESH_MARGIN_SECONDS = 300;
+const DEFAULT_REFRESH_RETRIES = 3;
+
+function readNonNegativeInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// A refresh that Etsy answered with invalid_grant: the refresh token is revoked or expired for good
+function isDefinitiveRefreshFailure(error: unknown): boolean {
+    return error instanceof EtsyApiError && error.etsyError === 'invalid_grant';
+}
+
+// Keeps access tokens of every profile fresh. Tokens are refreshed on a timer shortly before they
+// expire, concurrent callers share one in-flight refresh per profile (Etsy rotates the refresh token,
+// so a second parallel refresh would fail), and stored credentials are only removed when Etsy
+// rejects the refresh token itself.
+export class TokenManager {
+    private inFlight = new Map<string, Promise<string | null>>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private readonly refreshMarginMs: number;
+    private readonly maxRetries: number;
+
+    constructor(private readonly tokenStorageOverride?: TokenStorage) {
+        this.refreshMarginMs = readNonNegativeInt(process.env.ETSY_TOKEN_REFRESH_MARGIN_SECONDS, DEFAULT_REFRESH_MARGIN_SECONDS) * 1000;
+        this.maxRetries = readNonNegativeInt(process.env.ETSY_TOKEN_REFRESH_RETRIES, DEFAULT_REFRESH_RETRIES);
+    }
+
+    // Resolved lazily so importing the module does not touch token storage
+    private get tokenStorage(): TokenStorage {
+        return this.tokenStorageOverride ?? TokenStorage.getInstance();
+    }
+
+    // Schedules background refreshes for every stored profile
+    start(): void {
+        for (const profile of this.tokenStorage.listProfiles()) {
+            this.scheduleRefresh(profile.name);
+        }
+    }
+
+    stop(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    // Returns an access token for the profile (the current one by default), refreshing it first
+    // when it expires within the refresh margin. Returns null when the profile has no usable credentials.
+    async getValidAccessToken(profile?: string): Promise<string | null> {
+        const profileName = this.tokenStorage.resolveProfile(profile);
+        const tokens = this.tokenStorage.loadPotentiallyExpiredTokens(profileName);
+        if (!tokens?.access_token) {
+            return null;
+        }
+
+        const expiresAt = tokens.expires_at ?? Infinity;
+        if (expiresAt - Date.now() > this.refreshMarginMs) {
+            if (!this.timers.has(profileName)) {
+                this.scheduleRefresh(profileName);
+            }
+            return tokens.access_token;
+        }
+        if (!tokens.refresh_token) {
+            return expiresAt > Date.now() ? tokens.access_token : null;
+        }
+
+        try {
+            return await this.refresh(profileName);
+        } catch (error) {
+            // A transient failure inside the margin still leaves a working token to use
+            if (expiresAt > Date.now()) {
+                logger.error(`[TokenManager] Early refresh for profile "${profileName}" failed; using the current token until it expires.`, error);
+                return tokens.access_token;
+            }
+            throw error;
+        }
+    }
+
+    // Refreshes the profile's token; callers arriving while a refresh is running share its result
+    refresh(profile: string): Promise<string | null> {
+        let pending = this.inFlight.get(profile);
+        if (!pending) {
+            pending = this.performRefresh(profile).finally(() => this.inFlight.delete(profile));
+            this.inFlight.set(profile, pending);
+        }
+        return pending;
+    }
+
+    // Arms (or re-arms) the timer that refreshes the profile's token ahead of expiry
+    scheduleRefresh(profile: string): void {
+        const tokens = this.tokenStorage.loadPotentiallyExpiredTokens(profile);
+        const existing = this.timers.get(profile);
+        if (existing) {
+            clearTimeout(existing);
+            this.timers.delete(profile);
+        }
+        if (!tokens?.refresh_token || !tokens.expires_at) {
+            return;
+        }
+
+        const delayMs = Math.max(0, tokens.expires_at - this.refreshMarginMs - Date.now());
+        // Going through getValidAccessToken re-checks the expiry, so a timer armed before a re-authentication
+        // only re-arms itself instead of refreshing a token that is still fresh
+        const timer = setTimeout(() => {
+            this.timers.delete(profile);
+            this.getValidAccessToken(profile).catch(error => logger.error(`[TokenManager] Background refresh for profile "${profile}" failed`, error));
+        }, delayMs);
+        // Pending refreshes must not keep the process alive on shutdown
+        timer.unref();
+        this.timers.set(profile, timer);
+    }
+
+    private async performRefresh(profile: string): Promise<string | null> {
+        for (let attempt = 0; ; attempt++) {
+            // Re-read every attempt: another process may already have rotated the refresh token
+            const tokens = this.tokenStorage.loadPotentiallyExpiredTokens(profile);
+            if (!tokens?.refresh_token) {
+                return null;
+            }
+
+            try {
+                logger.info(`[TokenManager] Refreshing access token for profile "${profile}"...`);
+                const refreshed = await etsyApi.refreshToken(tokens.refresh_token);
+                this.tokenStorage.saveTokens({
+                    ...tokens, // Preserve user_id, shop_id and shop_name
+                    access_token: refreshed.access_token,
+                    refresh_token: refreshed.refresh_token, // Etsy rotates the refresh token on every refresh
+                    scope: refreshed.scope || tokens.scope,
+                    expires_at: undefined,
+                    expires_in: refreshed.expires_in
+                }, profile);
+                etsyApi.setAccessToken(refreshed.access_token);
+                logger.info(`[TokenManager] Token refresh for profile "${profile}" successful.`);
+                this.scheduleRefresh(profile);
+                return refreshed.access_token;
+            } catch (error) {
+                if (isDefinitiveRefreshFailure(error)) {
+                    logger.error(`[TokenManager] Etsy rejected the refresh token for profile "${profile}"; clearing its credentials. Run authenticate again.`, error);
+                    this.tokenStorage.clearTokens(profile);
+                    this.scheduleRefresh(profile);
+                    return null;
+                }
+                const transient = !(error instanceof EtsyApiError) || error.retryable;
+                if (!transient || attempt >= this.maxRetries) {
+                    throw error;
+                }
+                const delayMs = backoffDelay(attempt);
+                logger.warn(`[TokenManager] Token refresh for profile "${profile}" failed, retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+                await sleep(delayMs);
+            }
+        }
+    }
+}
+
+export const tokenManager = new TokenManager();
@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { getRequestContext } from './requestContext.js';
+import { logger } from '../utils/logger.js';
+import { EncryptedFileBackend, MemoryBackend, PlaintextFileBackend, TokenDecryptionError, TokenStorageBackend } from './tokenBackends.js';
 
 dotenv.config();
 
@@ -11,163 +14,324 @@ interface TokenData {
     user_id?: number;
     shop_id?: number;
     shop_name?: string;
+    // Space-separated OAuth scopes granted to access_token
+    scope?: string;
+}
+
+// The stored document holds one entry per named profile (Etsy account) plus the profile used by default
+interface ProfileStore {
+    active_profile: string;
+    profiles: Record<string, TokenData>;
+}
+
+export interface ProfileSummary {
+    name: string;
+    active: boolean;
+    user_id?: number;
+    shop_id?: number;
+    shop_name?: string;
+    expires_at?: number;
+    has_refresh_token: boolean;
+    scope?: string;
+}
+
+export const DEFAULT_PROFILE = 'default';
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+export function isValidProfileName(name: string): boolean {
+    return PROFILE_NAME_PATTERN.test(name);
+}
+
+// Directory holding tokens.json and other local state (e.g. caches)
+export function getStorageDirectory(): string {
+    return process.env.ETSY_MCP_TOKEN_PATH || path.join(process.env.HOME || process.env.USERPROFILE || '', '.etsy-mcp');
+}
+
+export const PLAINTEXT_TOKEN_FILE = 'tokens.json';
+export const ENCRYPTED_TOKEN_FILE = 'tokens.enc';
+
+// Secret for the encrypted backend: ETSY_MCP_TOKEN_PASSPHRASE, or the contents of ETSY_MCP_TOKEN_KEY_FILE
+export function getTokenEncryptionSecret(): string | undefined {
+    if (process.env.ETSY_MCP_TOKEN_PASSPHRASE) {
+        return process.env.ETSY_MCP_TOKEN_PASSPHRASE;
+    }
+    if (process.env.ETSY_MCP_TOKEN_KEY_FILE) {
+        return fs.readFileSync(process.env.ETSY_MCP_TOKEN_KEY_FILE, 'utf8').trim();
+    }
+    return undefined;
+}
+
+// Picks the backend from ETSY_MCP_TOKEN_STORAGE (file, encrypted or memory). Without it, tokens are
+// encrypted when a passphrase or key file is configured and stored as plaintext otherwise.
+export function createTokenBackend(storagePath: string = getStorageDirectory()): TokenStorageBackend {
+    const secret = getTokenEncryptionSecret();
+    const kind = (process.env.ETSY_MCP_TOKEN_STORAGE || (secret ? 'encrypted' : 'file')).toLowerCase();
+    if (kind === 'memory') {
+        return new MemoryBackend();
+    }
+    if (kind !== 'file' && kind !== 'encrypted') {
+        throw new Error(`Unknown ETSY_MCP_TOKEN_STORAGE "${kind}". Use file, encrypted or memory.`);
+    }
+
+    try {
+        // Create config directory if it doesn't exist
+        if (!fs.existsSync(storagePath)) {
+            fs.mkdirSync(storagePath, { mode: 0o700, recursive: true });
+        }
+    } catch (error: any) {
+        // Read-only or inaccessible file systems keep tokens for this session only
+        if (error.code === 'EROFS' || error.code === 'EACCES') {
+            logger.warn(`[TokenStorage] Cannot create ${storagePath} (${error.code}); tokens are kept in memory for this session only.`);
+            return new MemoryBackend();
+        }
+        throw error; // Re-throw other errors
+    }
+
+    if (kind === 'file') {
+        return new PlaintextFileBackend(path.join(storagePath, PLAINTEXT_TOKEN_FILE));
+    }
+    if (!secret) {
+        throw new Error('ETSY_MCP_TOKEN_STORAGE=encrypted needs ETSY_MCP_TOKEN_PASSPHRASE or ETSY_MCP_TOKEN_KEY_FILE.');
+    }
+    if (fs.existsSync(path.join(storagePath, PLAINTEXT_TOKEN_FILE))) {
+        logger.warn(`[TokenStorage] A plaintext ${PLAINTEXT_TOKEN_FILE} is still present in ${storagePath}. Run "npm run migrate-tokens" to encrypt it.`);
+    }
+    return new EncryptedFileBackend(path.join(storagePath, ENCRYPTED_TOKEN_FILE), secret);
+}
+
+// Parses a stored document, converting the pre-profile format (a single token object)
+function parseStore(contents: string): { store: ProfileStore; legacy: boolean } {
+    const data = JSON.parse(contents);
+    if (typeof data?.access_token === 'string') {
+        return { store: { active_profile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: data as TokenData } }, legacy: true };
+    }
+    return {
+        store: {
+            active_profile: typeof data?.active_profile === 'string' ? data.active_profile : DEFAULT_PROFILE,
+            profiles: data?.profiles && typeof data.profiles === 'object' ? data.profiles : {}
+        },
+        legacy: false
+    };
+}
+
+// Encrypts a plaintext tokens.json into tokens.enc and removes the plaintext file once the
+// encrypted copy has been read back successfully
+export function migratePlaintextTokens(secret: string, options: { storagePath?: string; overwrite?: boolean } = {}) {
+    const storagePath = options.storagePath ?? getStorageDirectory();
+    const source = new PlaintextFileBackend(path.join(storagePath, PLAINTEXT_TOKEN_FILE));
+    const targetPath = path.join(storagePath, ENCRYPTED_TOKEN_FILE);
+    const target = new EncryptedFileBackend(targetPath, secret);
+
+    const contents = source.read();
+    if (contents === null) {
+        throw new Error(`No plaintext ${PLAINTEXT_TOKEN_FILE} found in ${storagePath}.`);
+    }
+    if (fs.existsSync(targetPath) && !options.overwrite) {
+        throw new Error(`${targetPath} already exists. Pass --force to replace it.`);
+    }
+
+    const { store } = parseStore(contents);
+    const serialized = JSON.stringify(store, null, 2);
+    target.write(serialized);
+    if (target.read() !== serialized) {
+        throw new Error(`Verification of ${targetPath} failed; the plaintext file was left in place.`);
+    }
+    source.clear();
+
+    return { profiles: Object.keys(store.profiles).length, from: path.join(storagePath, PLAINTEXT_TOKEN_FILE), to: targetPath };
 }
 
 export class TokenStorage {
     private static instance: TokenStorage;
-    private tokenFilePath: string;
-    private fileStorageEnabled: boolean = true;
+    private backend: TokenStorageBackend;
 
-    private constructor() {
-        // Get storage path from environment variable or use default
-        const storagePath = process.env.ETSY_MCP_TOKEN_PATH || path.join(process.env.HOME || process.env.USERPROFILE || '', '.etsy-mcp');
-        
-        try {
-            // Create config directory if it doesn't exist
-            if (!fs.existsSync(storagePath)) {
-                fs.mkdirSync(storagePath, { mode: 0o700, recursive: true });
-            }
-            
-            this.tokenFilePath = path.join(storagePath, 'tokens.json');
-        } catch (error: any) {
-            // Handle EROFS and other file system errors
-            if (error.code === 'EROFS' || error.code === 'EACCES') {
-                console.error(`[TokenStorage] File storage disabled: ${error.message}`);
-                this.fileStorageEnabled = false;
-                this.tokenFilePath = '';
-            } else {
-                throw error; // Re-throw other errors
-            }
-        }
+    private constructor(backend: TokenStorageBackend) {
+        this.backend = backend;
     }
 
     public static getInstance(): TokenStorage {
         if (!TokenStorage.instance) {
-            TokenStorage.instance = new TokenStorage();
+            TokenStorage.instance = new TokenStorage(createTokenBackend());
         }
         return TokenStorage.instance;
     }
 
-    public saveTokens(tokens: TokenData & { expires_in?: number }): void {
-        if (!this.fileStorageEnabled) {
-            console.warn('[TokenStorage] Token persistence is disabled due to file system restrictions. Tokens will not be saved between sessions.');
-            return;
-        }
+    // Explicit argument first, then the profile of the current tool call, then the active profile
+    public resolveProfile(profile?: string): string {
+        return this.profileIn(this.readStore(), profile);
+    }
 
-        try {
-            let newExpiresAt: number;
-            if (tokens.expires_in) {
-                newExpiresAt = Date.now() + (tokens.expires_in * 1000);
-            } else if (tokens.expires_at) {
-                newExpiresAt = tokens.expires_at; // Preserve existing expires_at if no expires_in
-            } else {
-                newExpiresAt = Date.now() + (60 * 60 * 1000); // Default to 1 hour
-            }
+    private profileIn(store: ProfileStore, profile?: string): string {
+        return profile || getRequestContext().profile || store.active_profile;
+    }
 
-            const tokensToSave: TokenData = {
-                access_token: tokens.access_token,
-                refresh_token: tokens.refresh_token,
-                user_id: tokens.user_id,
-                shop_id: tokens.shop_id,
-                shop_name: tokens.shop_name,
-                expires_at: newExpiresAt
-            };
-
-            // Write tokens to file with restricted permissions
-            fs.writeFileSync(this.tokenFilePath, JSON.stringify(tokensToSave, null, 2), {
-                mode: 0o600,
-                encoding: 'utf8'
-            });
-        } catch (error: any) {
-            if (error.code === 'EROFS' || error.code === 'EACCES') {
-                console.error('[TokenStorage] Failed to save tokens: File system is read-only');
-                this.fileStorageEnabled = false;
-            } else {
-                console.error('Error saving tokens:', error);
-                throw error;
-            }
+    public saveTokens(tokens: TokenData & { expires_in?: number }, profile?: string): void {
+        const store = this.readStore();
+        const profileName = this.profileIn(store, profile);
+        if (!isValidProfileName(profileName)) {
+            throw new Error(`Invalid profile name "${profileName}". Use up to 32 letters, digits, "-" or "_".`);
         }
+
+        let newExpiresAt: number;
+        if (tokens.expires_in) {
+            newExpiresAt = Date.now() + (tokens.expires_in * 1000);
+        } else if (tokens.expires_at) {
+            newExpiresAt = tokens.expires_at; // Preserve existing expires_at if no expires_in
+        } else {
+            newExpiresAt = Date.now() + (60 * 60 * 1000); // Default to 1 hour
+        }
+
+        store.profiles[profileName] = {
+            access_token: tokens.access_token,
+            refresh_token: tokens.refresh_token,
+            user_id: tokens.user_id,
+            shop_id: tokens.shop_id,
+            shop_name: tokens.shop_name,
+            scope: tokens.scope,
+            expires_at: newExpiresAt
+        };
+        this.writeStore(store);
     }
 
-    public getTokens(): TokenData | null {
-        if (!this.fileStorageEnabled) {
+    public getTokens(profile?: string): TokenData | null {
+        const tokens = this.loadPotentiallyExpiredTokens(profile);
+
+        // Check if token is expired
+        if (tokens?.expires_at && tokens.expires_at < Date.now()) {
             return null;
         }
+        return tokens;
+    }
 
-        try {
-            if (!fs.existsSync(this.tokenFilePath)) {
-                return null;
-            }
+    // Load tokens even if they might be expired (to get refresh_token)
+    public loadPotentiallyExpiredTokens(profile?: string): TokenData | null {
+        const store = this.readStore();
+        const profileName = this.profileIn(store, profile);
+        return store.profiles[profileName] ?? null;
+    }
+
+    // Persists the default shop next to the stored tokens without touching the tokens themselves
+    public setDefaultShop(shopId: number, shopName: string, profile?: string): void {
+        const tokens = this.loadPotentiallyExpiredTokens(profile);
+        if (!tokens) {
+            throw new Error('No stored tokens to attach the default shop to. Please authenticate first.');
+        }
+        this.saveTokens({ ...tokens, shop_id: shopId, shop_name: shopName }, profile);
+    }
 
-            const data = fs.readFileSync(this.tokenFilePath, 'utf8');
-            const tokens: TokenData = JSON.parse(data);
+    // Removes the credentials of one profile (the current one by default)
+    public clearTokens(profile?: string): void {
+        const store = this.readStore();
+        const profileName = this.profileIn(store, profile);
+        if (!store.profiles[profileName]) {
+            return;
+        }
+        delete store.profiles[profileName];
+        this.writeStore(store);
+    }
 
-            // Check if token is expired
-            if (tokens.expires_at && tokens.expires_at < Date.now()) {
-                return null;
-            }
+    public hasValidToken(profile?: string): boolean {
+        const tokens = this.getTokens(profile);
+        return tokens !== null && tokens.access_token !== undefined;
+    }
 
-            return tokens;
-        } catch (error: any) {
-            if (error.code === 'EROFS' || error.code === 'EACCES') {
-                console.error('[TokenStorage] Failed to read tokens: File system is read-only');
-                this.fileStorageEnabled = false;
-            } else {
-                console.error('Error reading tokens:', error);
-            }
-            return null;
+    public getActiveProfile(): string {
+        return this.readStore().active_profile;
+    }
+
+    public hasProfile(name: string): boolean {
+        return name in this.readStore().profiles;
+    }
+
+    public listProfiles(): ProfileSummary[] {
+        const store = this.readStore();
+        return Object.entries(store.profiles)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, tokens]) => ({
+                name,
+                active: name === store.active_profile,
+                user_id: tokens.user_id,
+                shop_id: tokens.shop_id,
+                shop_name: tokens.shop_name,
+                expires_at: tokens.expires_at,
+                has_refresh_token: !!tokens.refresh_token,
+                scope: tokens.scope
+            }));
+    }
+
+    // Makes `name` the profile used when a tool call does not pass one
+    public setActiveProfile(name: string): void {
+        const store = this.readStore();
+        if (!store.profiles[name]) {
+            throw new Error(`Profile "${name}" does not exist. Run authenticate with profile "${name}" to create it.`);
         }
+        store.active_profile = name;
+        this.writeStore(store);
     }
 
-    // Load tokens even if they might be expired (to get refresh_token)
-    public loadPotentiallyExpiredTokens(): TokenData | null {
-        if (!this.fileStorageEnabled) {
-            return null;
+    // Deletes a profile; removing the active one falls back to another stored profile
+    public removeProfile(name: string): void {
+        const store = this.readStore();
+        if (!store.profiles[name]) {
+            throw new Error(`Profile "${name}" does not exist.`);
         }
+        delete store.profiles[name];
+        if (store.active_profile === name) {
+            store.active_profile = Object.keys(store.profiles).sort()[0] ?? DEFAULT_PROFILE;
+        }
+        this.writeStore(store);
+    }
 
-        try {
-            if (!fs.existsSync(this.tokenFilePath)) {
-                return null;
-            }
+    // Name of the active backend (file, encrypted or memory)
+    public getBackendName(): string {
+        return this.backend.name;
+    }
 
-            const data = fs.readFileSync(this.tokenFilePath, 'utf8');
-            const tokens: TokenData = JSON.parse(data);
+    // Reads the profile document, converting the pre-profile format on first use
+    private readStore(): ProfileStore {
+        const emptyStore: ProfileStore = { active_profile: DEFAULT_PROFILE, profiles: {} };
 
-            // Return tokens even if expired
-            return tokens;
+        let contents: string | null;
+        try {
+            contents = this.backend.read();
         } catch (error: any) {
-            if (error.code === 'EROFS' || error.code === 'EACCES') {
-                console.error('[TokenStorage] Failed to read potentially expired tokens: File system is read-only');
-                this.fileStorageEnabled = false;
-            } else {
-                console.error('Error reading potentially expired tokens:', error);
+            // A wrong passphrase must not be treated as "no tokens", or the next save would overwrite the file
+            if (error instanceof TokenDecryptionError) {
+                throw error;
             }
-            return null;
+            logger.error('[TokenStorage] Error reading tokens', error);
+            return emptyStore;
         }
-    }
-
-    public clearTokens(): void {
-        if (!this.fileStorageEnabled) {
-            return;
+        if (contents === null) {
+            return emptyStore;
         }
 
         try {
-            if (fs.existsSync(this.tokenFilePath)) {
-                fs.unlinkSync(this.tokenFilePath);
+            const { store, legacy } = parseStore(contents);
+            if (legacy) {
+                logger.info(`[TokenStorage] Migrating single-account tokens to profile "${DEFAULT_PROFILE}"`);
+                this.writeStore(store);
             }
+            return store;
+        } catch (error) {
+            // Parser messages can quote the stored document, so only the error type is logged
+            logger.error('[TokenStorage] Error parsing stored tokens', { type: error instanceof Error ? error.name : typeof error });
+            return emptyStore;
+        }
+    }
+
+    private writeStore(store: ProfileStore): void {
+        const contents = JSON.stringify(store, null, 2);
+        try {
+            this.backend.write(contents);
         } catch (error: any) {
             if (error.code === 'EROFS' || error.code === 'EACCES') {
-                console.error('[TokenStorage] Failed to clear tokens: File system is read-only');
-                this.fileStorageEnabled = false;
+                logger.warn(`[TokenStorage] Cannot write ${this.backend.name} token storage (${error.code}); tokens are kept in memory for this session only.`);
+                this.backend = new MemoryBackend(contents);
             } else {
-                console.error('Error clearing tokens:', error);
+                logger.error('[TokenStorage] Error saving tokens', error);
                 throw error;
             }
         }
     }
-
-    public hasValidToken(): boolean {
-        const tokens = this.getTokens();
-        return tokens !== null && tokens.access_token !== undefined;
-    }
-} 
\ No newline at end of file
+}
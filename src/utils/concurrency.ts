@@ -0,0 +1,24 @@
+export type SettledResult<T> =
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; reason: unknown };
+
+// Runs fn over items with at most `limit` calls in flight; results keep the input order
+export async function mapWithConcurrency<I, T>(items: I[], limit: number, fn: (item: I, index: number) => Promise<T>): Promise<SettledResult<T>[]> {
+    const results: SettledResult<T>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+    await Promise.all(workers);
+    return results;
+}
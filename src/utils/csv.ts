@@ -0,0 +1,75 @@
+function escapeCsvValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (/[",\r\n]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+// Serializes rows to RFC 4180 CSV; objects and arrays in cells are written as JSON
+export function toCsv(rows: Record<string, unknown>[], columns?: string[]): string {
+    const header = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const lines = [header.map(escapeCsvValue).join(',')];
+    rows.forEach(row => {
+        lines.push(header.map(column => escapeCsvValue(row[column])).join(','));
+    });
+    return lines.join('\r\n') + '\r\n';
+}
+
+// Parses RFC 4180 CSV (quoted fields, escaped quotes, embedded newlines) into records keyed by the header row
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...records] = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+    if (!header) {
+        return [];
+    }
+    const columns = header.map(column => column.trim());
+    return records.map(cells => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            record[column] = cells[index] ?? '';
+        });
+        return record;
+    });
+}
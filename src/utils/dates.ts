@@ -0,0 +1,23 @@
+// Etsy filters and timestamps use Unix epoch seconds; tools accept ISO 8601 dates instead
+export function toEpochSeconds(date: string): number {
+    const milliseconds = Date.parse(date);
+    if (isNaN(milliseconds)) {
+        throw new Error(`Invalid date: "${date}". Use an ISO 8601 date such as 2024-01-31 or 2024-01-31T12:00:00Z.`);
+    }
+    return Math.floor(milliseconds / 1000);
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Upper bounds are inclusive, so a date without a time means the end of that (UTC) day
+export function toEndEpochSeconds(date: string): number {
+    const seconds = toEpochSeconds(date);
+    return DATE_ONLY.test(date.trim()) ? seconds + 86399 : seconds;
+}
+
+export function fromEpochSeconds(seconds: number | undefined | null): string | undefined {
+    if (seconds === undefined || seconds === null) {
+        return undefined;
+    }
+    return new Date(seconds * 1000).toISOString();
+}
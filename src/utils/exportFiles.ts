@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+
+// Resolves a file name inside the directory configured by ETSY_EXPORT_DIR, creating it if needed.
+// Only the base name is used so tool arguments cannot write outside the export directory.
+export function resolveExportPath(fileName: string): string {
+    const exportDir = process.env.ETSY_EXPORT_DIR;
+    if (!exportDir) {
+        throw new Error('Export directory is not configured. Set ETSY_EXPORT_DIR in the server environment.');
+    }
+    if (!fs.existsSync(exportDir)) {
+        fs.mkdirSync(exportDir, { recursive: true });
+    }
+    return path.join(exportDir, path.basename(fileName));
+}
+
+export function writeExportFile(fileName: string, contents: string): string {
+    const filePath = resolveExportPath(fileName);
+    fs.writeFileSync(filePath, contents, 'utf8');
+    return filePath;
+}
@@ -0,0 +1,43 @@
+function levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Scores how well one query token matches one candidate token (0 = no match)
+function tokenScore(queryToken: string, candidateToken: string): number {
+    if (queryToken === candidateToken) return 3;
+    // Treat simple plurals as exact matches ("mugs" vs "mug")
+    if (queryToken.replace(/e?s$/, '') === candidateToken.replace(/e?s$/, '')) return 2.75;
+    if (candidateToken.startsWith(queryToken)) return 2;
+    if (candidateToken.includes(queryToken) && queryToken.length >= 3) return 1.5;
+    if (queryToken.length >= 4 && levenshtein(queryToken, candidateToken) <= 1) return 1;
+    return 0;
+}
+
+// Returns a score for how well `query` matches `text`; every query token contributes its best match
+export function fuzzyScore(query: string, text: string): number {
+    const queryTokens = tokenize(query);
+    const textTokens = tokenize(text);
+    if (queryTokens.length === 0 || textTokens.length === 0) {
+        return 0;
+    }
+    return queryTokens.reduce((score, queryToken) =>
+        score + Math.max(0, ...textTokens.map(textToken => tokenScore(queryToken, textToken))), 0);
+}
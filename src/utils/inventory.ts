@@ -0,0 +1,248 @@
+import { moneyToNumber } from './money.js';
+
+export interface InventoryPropertyValue {
+    property_id: number;
+    property_name: string;
+    scale_id: number | null;
+    value_ids: number[];
+    values: string[];
+}
+
+export interface InventoryOffering {
+    price: number;
+    quantity: number;
+    is_enabled: boolean;
+}
+
+export interface InventoryProduct {
+    sku: string;
+    property_values: InventoryPropertyValue[];
+    offerings: InventoryOffering[];
+}
+
+export interface InventoryPayload {
+    products: InventoryProduct[];
+    price_on_property: number[];
+    quantity_on_property: number[];
+    sku_on_property: number[];
+}
+
+// Converts a getListingInventory response into the body expected by updateListingInventory.
+// The GET response carries read-only fields (product_id, offering_id, is_deleted, scale_name)
+// and Money objects, while the PUT endpoint wants plain decimal prices.
+export function toInventoryUpdatePayload(inventory: any): InventoryPayload {
+    return {
+        products: (inventory.products || [])
+            .filter((product: any) => !product.is_deleted)
+            .map((product: any) => ({
+                sku: product.sku || '',
+                property_values: (product.property_values || []).map((pv: any) => ({
+                    property_id: pv.property_id,
+                    property_name: pv.property_name,
+                    scale_id: pv.scale_id ?? null,
+                    value_ids: pv.value_ids,
+                    values: pv.values
+                })),
+                offerings: (product.offerings || [])
+                    .filter((offering: any) => !offering.is_deleted)
+                    .map((offering: any) => ({
+                        price: typeof offering.price === 'number' ? offering.price : moneyToNumber(offering.price),
+                        quantity: offering.quantity,
+                        is_enabled: offering.is_enabled
+                    }))
+            })),
+        price_on_property: inventory.price_on_property || [],
+        quantity_on_property: inventory.quantity_on_property || [],
+        sku_on_property: inventory.sku_on_property || []
+    };
+}
+
+// Etsy reserves these property IDs for seller-defined variations ("custom property 1/2")
+const CUSTOM_PROPERTY_IDS = [513, 514];
+
+export interface VariationInput {
+    properties: Record<string, string>;
+    price?: number;
+    quantity?: number;
+    sku?: string;
+    is_enabled?: boolean;
+}
+
+export interface InventoryChanges {
+    variations?: VariationInput[];
+    remove?: Record<string, string>[];
+    replace?: boolean;
+    property_ids?: Record<string, number>;
+    price_on_property?: number[];
+    quantity_on_property?: number[];
+    sku_on_property?: number[];
+}
+
+function propertiesKey(properties: Record<string, string>): string {
+    return Object.entries(properties)
+        .map(([name, value]) => `${name.toLowerCase()}=${String(value).toLowerCase()}`)
+        .sort()
+        .join('|');
+}
+
+function productProperties(product: InventoryProduct): Record<string, string> {
+    const properties: Record<string, string> = {};
+    product.property_values.forEach(pv => {
+        properties[pv.property_name] = (pv.values || []).join(', ');
+    });
+    return properties;
+}
+
+function propertyValue(product: InventoryProduct, propertyId: number): string {
+    return JSON.stringify(product.property_values.find(pv => pv.property_id === propertyId)?.values ?? []);
+}
+
+// Whether products with the same values for the given properties always have the same field value
+function explains(products: InventoryProduct[], propertyIds: number[], pick: (product: InventoryProduct) => unknown): boolean {
+    const fieldByGroup = new Map<string, string>();
+    return products.every(product => {
+        const group = propertyIds.map(id => propertyValue(product, id)).join('|');
+        const field = JSON.stringify(pick(product));
+        if (!fieldByGroup.has(group)) {
+            fieldByGroup.set(group, field);
+        }
+        return fieldByGroup.get(group) === field;
+    });
+}
+
+// Returns the fewest property IDs whose values explain the differences in the given field, e.g. [Size]
+// when only the size changes the price, so Etsy gets the pricing structure the seller described
+function varyingPropertyIds(products: InventoryProduct[], pick: (product: InventoryProduct) => unknown): number[] {
+    const ids = new Set<number>();
+    products.forEach(product => product.property_values.forEach(pv => ids.add(pv.property_id)));
+    const all = Array.from(ids);
+    const candidates = [[], ...all.map(id => [id]), all];
+    return candidates.find(candidate => explains(products, candidate, pick)) ?? all;
+}
+
+// Applies variation-level edits (expressed as property name -> value maps) to an inventory payload.
+// Existing products are matched by their property values; unmatched variations become new products.
+export function applyInventoryChanges(payload: InventoryPayload, changes: InventoryChanges): InventoryPayload {
+    const propertyIds: Record<string, number> = {};
+    payload.products.forEach(product => product.property_values.forEach(pv => {
+        propertyIds[pv.property_name.toLowerCase()] = pv.property_id;
+    }));
+    Object.entries(changes.property_ids || {}).forEach(([name, id]) => {
+        propertyIds[name.toLowerCase()] = id;
+    });
+
+    const resolvePropertyId = (name: string): number => {
+        const key = name.toLowerCase();
+        if (propertyIds[key] === undefined) {
+            const used = new Set(Object.values(propertyIds));
+            const free = CUSTOM_PROPERTY_IDS.find(id => !used.has(id));
+            if (free === undefined) {
+                throw new Error(`Cannot add variation property "${name}": Etsy allows at most two variation properties per listing.`);
+            }
+            propertyIds[key] = free;
+        }
+        return propertyIds[key];
+    };
+
+    let products = changes.replace ? [] : [...payload.products];
+    const template = payload.products[0]?.offerings[0];
+
+    (changes.variations || []).forEach(variation => {
+        const key = propertiesKey(variation.properties);
+        const existing = products.find(product => propertiesKey(productProperties(product)) === key);
+        if (existing) {
+            const offering = existing.offerings[0];
+            if (variation.price !== undefined) offering.price = variation.price;
+            if (variation.quantity !== undefined) offering.quantity = variation.quantity;
+            if (variation.is_enabled !== undefined) offering.is_enabled = variation.is_enabled;
+            if (variation.sku !== undefined) existing.sku = variation.sku;
+            return;
+        }
+
+        // Every product of a varied listing must have the same properties
+        const variedProduct = products.find(product => product.property_values.length > 0);
+        if (variedProduct) {
+            const expected = Object.keys(productProperties(variedProduct)).map(name => name.toLowerCase()).sort();
+            const given = Object.keys(variation.properties).map(name => name.toLowerCase()).sort();
+            if (expected.join('|') !== given.join('|')) {
+                throw new Error(`New variation ${JSON.stringify(variation.properties)} must name the same properties as the existing variations (${Object.keys(productProperties(variedProduct)).join(', ')}).`);
+            }
+        }
+
+        const price = variation.price ?? template?.price;
+        if (price === undefined) {
+            throw new Error(`A price is required for new variation ${JSON.stringify(variation.properties)}.`);
+        }
+        products.push({
+            sku: variation.sku || '',
+            property_values: Object.entries(variation.properties).map(([name, value]) => ({
+                property_id: resolvePropertyId(name),
+                property_name: name,
+                scale_id: null,
+                value_ids: [],
+                values: [value]
+            })),
+            offerings: [{
+                price,
+                quantity: variation.quantity ?? 0,
+                is_enabled: variation.is_enabled ?? true
+            }]
+        });
+    });
+
+    if (changes.remove?.length) {
+        const removeKeys = new Set(changes.remove.map(propertiesKey));
+        products = products.filter(product => !removeKeys.has(propertiesKey(productProperties(product))));
+    }
+
+    // A listing is either variation-less (one product without properties) or fully varied
+    if (products.some(product => product.property_values.length > 0)) {
+        products = products.filter(product => product.property_values.length > 0);
+    }
+
+    if (products.length === 0) {
+        throw new Error('The resulting inventory would have no products.');
+    }
+
+    return {
+        products,
+        price_on_property: changes.price_on_property ?? varyingPropertyIds(products, product => product.offerings[0]?.price),
+        quantity_on_property: changes.quantity_on_property ?? varyingPropertyIds(products, product => product.offerings[0]?.quantity),
+        sku_on_property: changes.sku_on_property ?? varyingPropertyIds(products, product => product.sku)
+    };
+}
+
+// The parts of an inventory the seller controls, in a stable order. Etsy fills in value_ids and
+// scale_id and may reorder products, so inventories are compared through this projection rather
+// than against the exact body that was sent.
+export function comparableInventory(inventory: any) {
+    return toInventoryUpdatePayload(inventory).products
+        .map(product => ({
+            properties: propertiesKey(productProperties(product)),
+            sku: product.sku,
+            offerings: product.offerings.map(offering => ({ price: offering.price, quantity: offering.quantity, is_enabled: offering.is_enabled }))
+        }))
+        .sort((a, b) => a.properties.localeCompare(b.properties));
+}
+
+// Flattens an inventory response into one readable row per product
+export function summarizeInventory(inventory: any) {
+    return (inventory.products || [])
+        .filter((product: any) => !product.is_deleted)
+        .map((product: any) => {
+            const offering = (product.offerings || []).find((o: any) => !o.is_deleted) || {};
+            const properties: Record<string, string> = {};
+            (product.property_values || []).forEach((pv: any) => {
+                properties[pv.property_name] = (pv.values || []).join(', ');
+            });
+            return {
+                product_id: product.product_id,
+                sku: product.sku,
+                properties,
+                price: offering.price ? moneyToNumber(offering.price) : undefined,
+                currency: offering.price?.currency_code,
+                quantity: offering.quantity,
+                is_enabled: offering.is_enabled
+            };
+        });
+}
@@ -0,0 +1,63 @@
+import { LedgerEntry, Payment } from '../services/etsyModels.js';
+import { fromEpochSeconds } from './dates.js';
+import { toDecimalAmount } from './money.js';
+
+export const LEDGER_COLUMNS = [
+    'date',
+    'entry_id',
+    'type',
+    'description',
+    'amount',
+    'currency',
+    'fee_category',
+    'balance',
+    'reference_type',
+    'reference_id',
+    'receipt_id',
+    'payment_gross',
+    'payment_fees',
+    'payment_net'
+];
+
+// Groups Etsy's many ledger_type values into categories an accountant can map to a chart of accounts.
+// Ledger types are compound (vat_transaction is VAT charged on a transaction fee, refund_processing_fee
+// a refunded processing fee), so the first matching pattern wins and the most specific ones come first.
+const FEE_CATEGORY_PATTERNS: Array<[RegExp, string]> = [
+    [/vat|tax|gst/i, 'tax'],
+    [/refund/i, 'refund'],
+    [/processing|payment_fee|ppf/i, 'payment_processing_fee'],
+    [/shipping_label|postage/i, 'shipping_label'],
+    [/offsite|ads|promot|marketing/i, 'advertising_fee'],
+    [/listing|renew/i, 'listing_fee'],
+    [/transaction/i, 'transaction_fee'],
+    [/subscription/i, 'subscription_fee'],
+    [/disburse|deposit|payout/i, 'payout'],
+    [/sale|payment/i, 'sale']
+];
+
+export function feeCategory(ledgerType: string | null | undefined): string {
+    if (!ledgerType) {
+        return 'other';
+    }
+    const match = FEE_CATEGORY_PATTERNS.find(([pattern]) => pattern.test(ledgerType));
+    return match ? match[1] : 'other';
+}
+
+export function normalizeLedgerEntry(entry: LedgerEntry, payment?: Payment) {
+    return {
+        date: fromEpochSeconds(entry.created_timestamp ?? entry.create_date),
+        entry_id: entry.entry_id,
+        type: entry.ledger_type,
+        description: entry.description,
+        amount: toDecimalAmount(entry.amount, entry.currency),
+        currency: entry.currency,
+        fee_category: feeCategory(entry.ledger_type),
+        balance: toDecimalAmount(entry.balance, entry.currency),
+        reference_type: entry.reference_type,
+        reference_id: entry.reference_id,
+        receipt_id: payment?.receipt_id,
+        payment_gross: toDecimalAmount(payment?.amount_gross),
+        payment_fees: toDecimalAmount(payment?.amount_fees),
+        payment_net: toDecimalAmount(payment?.amount_net)
+    };
+}
@@ -0,0 +1,93 @@
+import { Listing } from '../services/etsyModels.js';
+import { fromEpochSeconds } from './dates.js';
+import { summarizeInventory } from './inventory.js';
+import { moneyToNumber } from './money.js';
+
+// Leading columns match import_listings so an exported CSV can be edited and re-imported
+export const LISTING_EXPORT_COLUMNS = [
+    'listing_id',
+    'state',
+    'title',
+    'description',
+    'price',
+    'currency',
+    'quantity',
+    'who_made',
+    'when_made',
+    'taxonomy_id',
+    'type',
+    'shipping_profile_id',
+    'tags',
+    'materials',
+    'skus',
+    'should_auto_renew',
+    'is_supply',
+    'is_taxable',
+    'is_personalizable',
+    'shop_section_id',
+    'return_policy_id',
+    'item_weight',
+    'item_weight_unit',
+    'item_length',
+    'item_width',
+    'item_height',
+    'item_dimensions_unit',
+    'views',
+    'num_favorers',
+    'url',
+    'created',
+    'updated',
+    'ending',
+    'image_count',
+    'image_urls',
+    'variations',
+    'shipping_profile_title',
+    'origin_country_iso',
+    'min_processing_days',
+    'max_processing_days'
+];
+
+export function flattenListing(listing: Listing): Record<string, unknown> {
+    return {
+        listing_id: listing.listing_id,
+        state: listing.state,
+        title: listing.title,
+        description: listing.description,
+        price: listing.price ? moneyToNumber(listing.price) : undefined,
+        currency: listing.price?.currency_code,
+        quantity: listing.quantity,
+        who_made: listing.who_made,
+        when_made: listing.when_made,
+        taxonomy_id: listing.taxonomy_id,
+        type: listing.listing_type ?? listing.type,
+        shipping_profile_id: listing.shipping_profile_id,
+        tags: (listing.tags || []).join('|'),
+        materials: (listing.materials || []).join('|'),
+        skus: (listing.skus || []).join('|'),
+        should_auto_renew: listing.should_auto_renew,
+        is_supply: listing.is_supply,
+        is_taxable: listing.is_taxable,
+        is_personalizable: listing.is_personalizable,
+        shop_section_id: listing.shop_section_id,
+        return_policy_id: listing.return_policy_id,
+        item_weight: listing.item_weight,
+        item_weight_unit: listing.item_weight_unit,
+        item_length: listing.item_length,
+        item_width: listing.item_width,
+        item_height: listing.item_height,
+        item_dimensions_unit: listing.item_dimensions_unit,
+        views: listing.views,
+        num_favorers: listing.num_favorers,
+        url: listing.url,
+        created: fromEpochSeconds(listing.created_timestamp ?? listing.creation_timestamp),
+        updated: fromEpochSeconds(listing.updated_timestamp ?? listing.last_modified_timestamp),
+        ending: fromEpochSeconds(listing.ending_timestamp),
+        image_count: listing.images ? listing.images.length : undefined,
+        image_urls: listing.images ? listing.images.map(image => image.url_fullxfull).join('|') : undefined,
+        variations: listing.inventory ? summarizeInventory(listing.inventory) : undefined,
+        shipping_profile_title: listing.shipping_profile?.title,
+        origin_country_iso: listing.shipping_profile?.origin_country_iso,
+        min_processing_days: listing.shipping_profile?.min_processing_days,
+        max_processing_days: listing.shipping_profile?.max_processing_days
+    };
+}
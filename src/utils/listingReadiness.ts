@@ -0,0 +1,39 @@
+import { moneyToNumber } from './money.js';
+
+// Etsy rejects active listings priced below USD 0.20 (or the equivalent in the shop currency)
+export const MINIMUM_LISTING_PRICE = 0.2;
+
+// Lists what prevents a listing (fetched with includes=Images) from being made active
+export function checkListingReadiness(listing: any): string[] {
+    const missing: string[] = [];
+
+    if (!listing.title?.trim()) {
+        missing.push('Title is empty.');
+    }
+    if (!listing.description?.trim()) {
+        missing.push('Description is empty.');
+    }
+    if (!listing.taxonomy_id) {
+        missing.push('No taxonomy_id (category) is set. Use search_taxonomy to find one.');
+    }
+    if (!listing.images || listing.images.length === 0) {
+        missing.push('Listing has no images. Upload at least one with upload_listing_image.');
+    }
+    // Etsy returns listing_type (physical, download or both); listings that ship physically need a profile
+    const listingType = listing.listing_type ?? listing.type;
+    if ((listingType === 'physical' || listingType === 'both') && !listing.shipping_profile_id) {
+        missing.push('Physical listing has no shipping profile. Set shipping_profile_id with update_listing.');
+    }
+    if (!listing.tags || listing.tags.length === 0) {
+        missing.push('Listing has no tags. Add tags with update_listing.');
+    }
+    const price = listing.price ? moneyToNumber(listing.price) : undefined;
+    if (price === undefined || price < MINIMUM_LISTING_PRICE) {
+        missing.push(`Price must be at least ${MINIMUM_LISTING_PRICE.toFixed(2)}${listing.price?.currency_code ? ` ${listing.price.currency_code}` : ''} (currently ${price ?? 'not set'}).`);
+    }
+    if (!listing.quantity || listing.quantity < 1) {
+        missing.push('Quantity must be at least 1.');
+    }
+
+    return missing;
+}
@@ -1,97 +1,248 @@
 import fs from 'fs';
 import path from 'path';
+import { getRequestContext } from '../services/requestContext.js';
 
-class Logger {
-    private logFile: string = '';
-    private stream: fs.WriteStream | null = null;
-    private fileLoggingEnabled: boolean = true;
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
-    constructor() {
-        // Get log directory from environment variable or use default
-        const customLogPath = process.env.ETSY_MCP_LOG_PATH;
-        const calculatedLogDir = customLogPath || path.join(process.cwd(), 'logs');
+const LEVELS: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
 
-        console.error(`[Logger] Initializing: process.cwd() is "${process.cwd()}"`);
-        console.error(`[Logger] Initializing: ETSY_MCP_LOG_PATH is "${customLogPath}"`);
-        console.error(`[Logger] Initializing: Calculated logDir is "${calculatedLogDir}"`);
-        
-        try {
-            // Create logs directory if it doesn't exist
-            if (!fs.existsSync(calculatedLogDir)) {
-                console.error(`[Logger] Attempting to create log directory: "${calculatedLogDir}"`);
-                fs.mkdirSync(calculatedLogDir, { recursive: true });
-            }
+export const LOG_FILE = 'mcp-server.log';
+// Rotated files, and the per-process files written by earlier versions
+const ROTATED_LOG_FILE = /^mcp-server-.+\.log$/;
 
-            // Create a new log file with timestamp
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            this.logFile = path.join(calculatedLogDir, `mcp-server-${timestamp}.log`);
-            this.stream = fs.createWriteStream(this.logFile, { flags: 'a' });
-            console.error(`[Logger] File logging enabled. Log file: "${this.logFile}"`);
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+// Matched against lower-cased keys without separators, so access_token, accessToken and x-api-key all
+// match, while flags and counts such as has_refresh_token or token_count are logged as they are
+const SECRET_KEYS = new Set([
+    'token', 'accesstoken', 'refreshtoken', 'idtoken', 'bearertoken', 'code', 'codeverifier', 'codechallenge',
+    'secret', 'clientsecret', 'apikey', 'xapikey', 'authorization', 'proxyauthorization', 'password', 'passphrase',
+    'cookie', 'setcookie'
+]);
+const SECRET_PARAM = /\b(code|code_verifier|code_challenge|access_token|refresh_token|client_secret|api_key)=[^&\s"']+/gi;
+const BEARER = /\bBearer\s+[^\s"',]+/gi;
+// Configured secrets are masked wherever they appear, e.g. the API key inside an error message
+const SECRET_ENV_VARS = ['ETSY_API_KEY', 'ETSY_CLIENT_SECRET', 'ETSY_MCP_HTTP_TOKEN', 'ETSY_MCP_TOKEN_PASSPHRASE'];
 
-        } catch (error: any) {
-            console.error(`[Logger] Error during file logging setup for directory "${calculatedLogDir}":`, error);
-            // Handle EROFS and other file system errors
-            if (error.code === 'EROFS' || error.code === 'EACCES' || error.code === 'ENOENT') {
-                console.error(`[Logger] File logging disabled due to error: ${error.message}`);
-                this.fileLoggingEnabled = false;
-                this.stream = null;
-            } else {
-                // For other errors, it might be more critical, but for now, disable file logging and continue
-                console.error(`[Logger] Unexpected error during file logging setup. Disabling file logging. Error: ${error.message}`);
-                this.fileLoggingEnabled = false;
-                this.stream = null;
-                // Optionally re-throw if some errors should indeed crash the server:
-                // throw error;
-            }
+function isSecretKey(key: string): boolean {
+    const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return SECRET_KEYS.has(normalized);
+}
+
+function redactString(value: string): string {
+    let redacted = value.replace(SECRET_PARAM, `$1=${REDACTED}`).replace(BEARER, `Bearer ${REDACTED}`);
+    SECRET_ENV_VARS.forEach(name => {
+        const secret = process.env[name];
+        if (secret && secret.length >= 6) {
+            redacted = redacted.split(secret).join(REDACTED);
         }
+    });
+    return redacted;
+}
+
+// Axios errors carry the request config (with the API key and bearer token) and the socket;
+// only the message, Etsy's response body and the fields of our own error classes are kept
+function serializeError(error: Error & Record<string, any>, seen: WeakSet<object>, depth: number): Record<string, unknown> {
+    const serialized: Record<string, unknown> = { name: error.name, message: redactString(error.message) };
+    Object.keys(error)
+        .filter(key => !['config', 'request', 'response', 'toJSON'].includes(key))
+        .forEach(key => {
+            // An error's code is e.g. ECONNRESET, not an authorization code
+            serialized[key] = key !== 'code' && isSecretKey(key) ? REDACTED : redact(error[key], seen, depth + 1);
+        });
+    if (error.response && typeof error.response === 'object') {
+        serialized.response = { status: error.response.status, data: redact(error.response.data, seen, depth + 1) };
+    }
+    if (error.stack) {
+        serialized.stack = redactString(error.stack);
+    }
+    return serialized;
+}
+
+// Deep copy of a value that is safe to log: secret-looking keys, OAuth parameters in URLs,
+// bearer tokens and configured secrets are replaced with [REDACTED]
+export function redact(value: unknown, seen: WeakSet<object> = new WeakSet(), depth = 0): unknown {
+    if (typeof value === 'string') {
+        return redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+        return typeof value === 'function' || typeof value === 'symbol' ? String(value) : value;
+    }
+    if (seen.has(value)) {
+        return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+        return '[Truncated]';
+    }
+    seen.add(value);
+    if (value instanceof Error) {
+        return serializeError(value as Error & Record<string, any>, seen, depth);
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Buffer.isBuffer(value)) {
+        return `[Buffer ${value.length} bytes]`;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, seen, depth + 1));
+    }
+    const copy: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+        copy[key] = isSecretKey(key) && item !== null && item !== undefined ? REDACTED : redact(item, seen, depth + 1);
+    });
+    return copy;
+}
+
+function levelFromEnv(name: string, fallback: LogLevel): LogLevel {
+    const value = process.env[name]?.toLowerCase();
+    if (!value) {
+        return fallback;
+    }
+    if (value in LEVELS) {
+        return value as LogLevel;
+    }
+    process.stderr.write(`[Logger] Unknown ${name} "${value}"; using ${fallback}. Use error, warn, info or debug.\n`);
+    return fallback;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function utcDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+// Writes JSON lines to mcp-server.log in ETSY_MCP_LOG_PATH (default ./logs) and a readable line to
+// stderr. The file is rotated when it exceeds ETSY_MCP_LOG_MAX_SIZE_MB or at the first write of a new
+// UTC day; rotated files are deleted after ETSY_MCP_LOG_RETENTION_DAYS or beyond ETSY_MCP_LOG_MAX_FILES.
+// Every entry carries the correlation ID of the tool call or HTTP request it was written for.
+export class Logger {
+    private readonly logDir = process.env.ETSY_MCP_LOG_PATH || path.join(process.cwd(), 'logs');
+    private readonly fileLevel = levelFromEnv('ETSY_MCP_LOG_LEVEL', 'info');
+    private readonly stderrLevel = levelFromEnv('ETSY_MCP_LOG_STDERR_LEVEL', 'warn');
+    private readonly maxBytes = numberFromEnv('ETSY_MCP_LOG_MAX_SIZE_MB', 10) * 1024 * 1024;
+    private readonly maxFiles = numberFromEnv('ETSY_MCP_LOG_MAX_FILES', 10);
+    private readonly retentionDays = numberFromEnv('ETSY_MCP_LOG_RETENTION_DAYS', 14);
+
+    private fd: number | null = null;
+    private size = 0;
+    private fileDay = '';
+    private fileLoggingEnabled = true;
+
+    get logFile(): string {
+        return path.join(this.logDir, LOG_FILE);
     }
 
-    log(message: string, data?: any) {
+    error(message: string, error?: unknown) {
+        this.write('error', message, error);
+    }
+
+    warn(message: string, data?: unknown) {
+        this.write('warn', message, data);
+    }
+
+    info(message: string, data?: unknown) {
+        this.write('info', message, data);
+    }
+
+    debug(message: string, data?: unknown) {
+        this.write('debug', message, data);
+    }
+
+    close() {
+        if (this.fd !== null) {
+            fs.closeSync(this.fd);
+            this.fd = null;
+        }
+    }
+
+    private write(level: LogLevel, message: string, data: unknown) {
+        const toFile = this.fileLoggingEnabled && LEVELS[level] <= LEVELS[this.fileLevel];
+        const toStderr = LEVELS[level] <= LEVELS[this.stderrLevel];
+        if (!toFile && !toStderr) {
+            return;
+        }
+
+        const context = getRequestContext();
         const timestamp = new Date().toISOString();
-        const logEntry = {
+        const detail = data === undefined ? undefined : redact(data);
+        const entry = {
             timestamp,
-            message,
-            data
+            level,
+            message: redactString(message),
+            correlation_id: context.correlationId,
+            tool: context.tool,
+            ...(detail === undefined ? {} : data instanceof Error ? { error: detail } : { data: detail })
         };
-        
-        // Write to console
-        console.error(`[${timestamp}] ${message}`, data ? data : '');
-        
-        // Write to file if enabled
-        if (this.fileLoggingEnabled && this.stream) {
-            this.stream.write(JSON.stringify(logEntry) + '\n');
+
+        if (toStderr) {
+            const prefix = `[${timestamp}] ${level.toUpperCase()}${context.correlationId ? ` [${context.correlationId}]` : ''}`;
+            process.stderr.write(`${prefix} ${entry.message}${detail === undefined ? '' : ` ${JSON.stringify(detail)}`}\n`);
+        }
+        if (toFile) {
+            this.writeToFile(`${JSON.stringify(entry)}\n`);
         }
     }
 
-    error(message: string, error: any) {
-        const timestamp = new Date().toISOString();
-        const logEntry = {
-            timestamp,
-            level: 'error',
-            message,
-            error: {
-                message: error.message,
-                stack: error.stack,
-                response: error.response?.data
+    // Synchronous, so entries written just before the process exits are not lost
+    private writeToFile(line: string) {
+        try {
+            const bytes = Buffer.byteLength(line);
+            if (this.fd === null) {
+                this.open();
+            } else if (this.size + bytes > this.maxBytes || this.fileDay !== utcDay(Date.now())) {
+                this.rotate();
             }
-        };
-        
-        // Write to console
-        console.error(`[${timestamp}] ERROR: ${message}`, error);
-        
-        // Write to file if enabled
-        if (this.fileLoggingEnabled && this.stream) {
-            this.stream.write(JSON.stringify(logEntry) + '\n');
+            fs.writeSync(this.fd!, line);
+            this.size += bytes;
+        } catch (error: any) {
+            this.fileLoggingEnabled = false;
+            this.close();
+            process.stderr.write(`[Logger] File logging to ${this.logDir} disabled: ${error.message}\n`);
         }
     }
 
-    close() {
-        if (this.stream) {
-            this.stream.end(() => {
-                console.log('Logger stream closed');
-            });
+    private open() {
+        fs.mkdirSync(this.logDir, { recursive: true });
+        if (fs.existsSync(this.logFile)) {
+            const stats = fs.statSync(this.logFile);
+            // A file left over from an earlier day or one that is already full starts a new one
+            if (stats.size >= this.maxBytes || utcDay(stats.birthtimeMs || stats.mtimeMs) !== utcDay(Date.now())) {
+                this.archiveCurrentFile();
+            }
         }
+        this.fd = fs.openSync(this.logFile, 'a', 0o600);
+        this.size = fs.fstatSync(this.fd).size;
+        this.fileDay = utcDay(Date.now());
+        this.prune();
+    }
+
+    private rotate() {
+        this.close();
+        this.archiveCurrentFile();
+        this.open();
+    }
+
+    private archiveCurrentFile() {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        fs.renameSync(this.logFile, path.join(this.logDir, `mcp-server-${timestamp}.log`));
+    }
+
+    private prune() {
+        const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+        fs.readdirSync(this.logDir)
+            .filter(name => ROTATED_LOG_FILE.test(name))
+            .map(name => ({ file: path.join(this.logDir, name), mtime: fs.statSync(path.join(this.logDir, name)).mtimeMs }))
+            .sort((a, b) => b.mtime - a.mtime)
+            .forEach(({ file, mtime }, index) => {
+                if (index >= this.maxFiles || mtime < cutoff) {
+                    fs.rmSync(file, { force: true });
+                }
+            });
     }
 }
 
-export const logger = new Logger(); 
\ No newline at end of file
+export const logger = new Logger();
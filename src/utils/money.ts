@@ -0,0 +1,28 @@
+// Etsy represents prices as integer amounts with a divisor, e.g. { amount: 2500, divisor: 100 } is 25.00
+export interface EtsyMoney {
+    amount: number;
+    divisor: number;
+    currency_code: string;
+}
+
+export function moneyToNumber(money: EtsyMoney): number {
+    if (!money.divisor) {
+        return money.amount;
+    }
+    return money.amount / money.divisor;
+}
+
+// ISO 4217 currencies without a minor unit
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'VND', 'CLP', 'ISK', 'UGX', 'XAF', 'XOF']);
+
+// Converts either an Etsy Money object or an integer amount in minor units (as used by ledger entries)
+export function toDecimalAmount(value: EtsyMoney | number | null | undefined, currencyCode?: string): number | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value === 'object') {
+        return moneyToNumber(value);
+    }
+    const divisor = currencyCode && ZERO_DECIMAL_CURRENCIES.has(currencyCode.toUpperCase()) ? 1 : 100;
+    return value / divisor;
+}
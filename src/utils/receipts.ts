@@ -0,0 +1,26 @@
+import { fromEpochSeconds } from './dates.js';
+import { moneyToNumber } from './money.js';
+
+// Compact view of a receipt for listing many orders in one tool response
+export function summarizeReceipt(receipt: any) {
+    return {
+        receipt_id: receipt.receipt_id,
+        status: receipt.status,
+        buyer_name: receipt.name,
+        buyer_email: receipt.buyer_email,
+        created: fromEpochSeconds(receipt.create_timestamp ?? receipt.created_timestamp),
+        is_paid: receipt.is_paid,
+        is_shipped: receipt.is_shipped,
+        grandtotal: receipt.grandtotal ? moneyToNumber(receipt.grandtotal) : undefined,
+        currency: receipt.grandtotal?.currency_code,
+        ship_to: [receipt.city, receipt.state, receipt.country_iso].filter(Boolean).join(', '),
+        items: (receipt.transactions || []).map((transaction: any) => ({
+            listing_id: transaction.listing_id,
+            title: transaction.title,
+            quantity: transaction.quantity,
+            sku: transaction.sku,
+            variations: (transaction.variations || []).map((variation: any) => `${variation.formatted_name}: ${variation.formatted_value}`)
+        })),
+        message_from_buyer: receipt.message_from_buyer || undefined
+    };
+}
@@ -0,0 +1,46 @@
+import { fromEpochSeconds } from './dates.js';
+
+// Local aggregates over a set of reviews; Etsy does not provide these for arbitrary date ranges
+export function summarizeReviews(reviews: any[], lowRatingThreshold: number = 3, lowestListingsCount: number = 5) {
+    const distribution: Record<string, number> = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+    const byListing = new Map<number, { total: number; count: number }>();
+    let total = 0;
+
+    reviews.forEach(review => {
+        total += review.rating;
+        distribution[String(review.rating)] = (distribution[String(review.rating)] || 0) + 1;
+        if (review.listing_id) {
+            const listing = byListing.get(review.listing_id) || { total: 0, count: 0 };
+            listing.total += review.rating;
+            listing.count += 1;
+            byListing.set(review.listing_id, listing);
+        }
+    });
+
+    const lowestRatedListings = Array.from(byListing.entries())
+        .map(([listingId, { total: listingTotal, count }]) => ({
+            listing_id: listingId,
+            average_rating: Math.round((listingTotal / count) * 100) / 100,
+            review_count: count
+        }))
+        .sort((a, b) => a.average_rating - b.average_rating || b.review_count - a.review_count)
+        .slice(0, lowestListingsCount);
+
+    const lowRatedReviews = reviews
+        .filter(review => review.rating <= lowRatingThreshold)
+        .map(review => ({
+            listing_id: review.listing_id,
+            transaction_id: review.transaction_id,
+            rating: review.rating,
+            review: review.review,
+            created: fromEpochSeconds(review.created_timestamp ?? review.create_timestamp)
+        }));
+
+    return {
+        review_count: reviews.length,
+        average_rating: reviews.length > 0 ? Math.round((total / reviews.length) * 100) / 100 : null,
+        rating_distribution: distribution,
+        lowest_rated_listings: lowestRatedListings,
+        low_rated_reviews: lowRatedReviews
+    };
+}
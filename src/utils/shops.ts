@@ -0,0 +1,55 @@
+import { Shop } from '../services/etsyModels.js';
+import { fuzzyScore } from './fuzzy.js';
+
+export interface ShopNameMatch {
+    shop?: Shop;
+    // Why no shop was picked
+    reason?: 'ambiguous' | 'no_match';
+    // Shops that matched equally well when the name was ambiguous, or every shop when nothing matched
+    candidates: Shop[];
+}
+
+// Etsy shop names are single CamelCase words, so compare them with case and separators removed
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function nameScore(query: string, shop: Shop): number {
+    const normalizedQuery = normalizeName(query);
+    const normalizedName = normalizeName(shop.shop_name);
+    if (!normalizedQuery) {
+        return 0;
+    }
+    if (normalizedName === normalizedQuery) {
+        return 100;
+    }
+    const containment = normalizedName.includes(normalizedQuery) ? 5 : 0;
+    return containment + Math.max(fuzzyScore(query, shop.shop_name), fuzzyScore(query, shop.title ?? ''));
+}
+
+// Picks the shop whose name best matches `name`; no shop is picked when the best score is tied
+export function findShopByName(shops: Shop[], name: string): ShopNameMatch {
+    const scored = shops
+        .map(shop => ({ shop, score: nameScore(name, shop) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) {
+        return { reason: 'no_match', candidates: shops };
+    }
+    const best = scored.filter(match => match.score === scored[0].score).map(match => match.shop);
+    return best.length === 1 ? { shop: best[0], candidates: best } : { reason: 'ambiguous', candidates: best };
+}
+
+export function summarizeShop(shop: Shop, defaultShopId?: number) {
+    return {
+        shop_id: shop.shop_id,
+        shop_name: shop.shop_name,
+        title: shop.title ?? null,
+        currency_code: shop.currency_code ?? null,
+        active_listings: shop.listing_active_count ?? null,
+        is_vacation: shop.is_vacation ?? false,
+        url: shop.url ?? null,
+        is_default: shop.shop_id === defaultShopId
+    };
+}